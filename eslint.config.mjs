@@ -17,6 +17,7 @@ const eslintConfig = [
       ".next/**",
       "out/**",
       "build/**",
+      "public/ffmpeg/**",
       "next-env.d.ts",
     ],
   },
@@ -0,0 +1,19 @@
+// Copy the ffmpeg.wasm core into public/ffmpeg so the app serves it from its
+// own origin (required by the COEP header set in next.config.ts).
+import { copyFileSync, existsSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const source = join(root, "node_modules", "@ffmpeg", "core", "dist", "umd");
+const target = join(root, "public", "ffmpeg");
+
+if (!existsSync(source)) {
+  console.warn("@ffmpeg/core is not installed, skipping copy of the ffmpeg.wasm core");
+  process.exit(0);
+}
+
+mkdirSync(target, { recursive: true });
+for (const file of ["ffmpeg-core.js", "ffmpeg-core.wasm"]) {
+  copyFileSync(join(source, file), join(target, file));
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { ADJUSTMENT_SLIDERS, DEFAULT_ADJUSTMENTS, TONES, isNeutral } from "./imageAdjustments";
+import type { ImageAdjustments, Tone } from "./imageAdjustments";
+
+interface AdjustmentsPanelProps {
+  adjustments: ImageAdjustments;
+  // commit is false while a slider is being dragged; onCommit follows on release
+  onChange: (change: Partial<ImageAdjustments>, commit: boolean) => void;
+  onCommit: () => void;
+  onReset: () => void;
+  // No image frame to adjust, e.g. a blank new frame
+  disabled?: boolean;
+}
+
+export default function AdjustmentsPanel({
+  adjustments,
+  onChange,
+  onCommit,
+  onReset,
+  disabled = false,
+}: AdjustmentsPanelProps) {
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-3 grid gap-2 content-start text-sm">
+      <div className="flex items-center gap-2">
+        <div className="font-medium flex-1">Adjustments</div>
+        <button
+          onClick={onReset}
+          disabled={disabled || isNeutral(adjustments)}
+          className="px-2 py-0.5 rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+          title="Back to the original frame"
+        >
+          Reset
+        </button>
+      </div>
+
+      {disabled ? (
+        <div className="opacity-60">Adjustments work on image frames only.</div>
+      ) : (
+        <>
+          {ADJUSTMENT_SLIDERS.map((slider) => (
+            <label key={slider.key} className="grid grid-cols-[5.5rem_1fr_2.5rem] gap-2 items-center">
+              {slider.label}
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={adjustments[slider.key]}
+                onChange={(e) => onChange({ [slider.key]: Number(e.target.value) }, false)}
+                onPointerUp={onCommit}
+                onKeyUp={onCommit}
+                // Double-click puts a single slider back
+                onDoubleClick={() => onChange({ [slider.key]: DEFAULT_ADJUSTMENTS[slider.key] }, true)}
+              />
+              <span className="text-right tabular-nums">{adjustments[slider.key].toFixed(2)}</span>
+            </label>
+          ))}
+          <label className="flex gap-2 items-center">
+            Tone:
+            <select
+              value={adjustments.tone}
+              onChange={(e) => onChange({ tone: e.target.value as Tone }, true)}
+              className="px-2 py-1 border rounded"
+            >
+              {TONES.map((tone) => (
+                <option key={tone.id} value={tone.id}>
+                  {tone.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { baseName, zipFiles } from "./downloads";
+import type { NamedBlob } from "./downloads";
+import { encodeCanvas, getImageFormat } from "./imageFormats";
+import type { ExportSettings } from "./imageFormats";
+import { frameMetadata } from "./imageMetadata";
+import { timecodeForFileName } from "./timecode";
+import {
+  captureFrame,
+  frameToTime,
+  loadVideo,
+  releaseVideo,
+  timeToFrame,
+  totalFrames,
+} from "./videoFrames";
+
+interface BatchExtractorProps {
+  videoUrl: string;
+  videoName: string;
+  duration: number;
+  fps: number;
+  position: number;
+  startTimecode: string;
+  exportSettings: ExportSettings;
+}
+
+type IntervalUnit = "seconds" | "frames";
+
+// Frame-aligned seek targets between the in and out points
+const batchFrames = (
+  start: number,
+  end: number,
+  interval: number,
+  unit: IntervalUnit,
+  fps: number,
+  duration: number
+) => {
+  const lastFrame = totalFrames(duration, fps) - 1;
+  const startFrame = Math.min(timeToFrame(start, fps), lastFrame);
+  const endFrame = Math.min(timeToFrame(end, fps), lastFrame);
+  const frames: number[] = [];
+  if (interval <= 0 || endFrame < startFrame) return frames;
+
+  if (unit === "frames") {
+    const step = Math.max(1, Math.round(interval));
+    for (let f = startFrame; f <= endFrame; f += step) frames.push(f);
+  } else {
+    // Intervals shorter than a frame would only repeat frames (and a typed
+    // 0.0001 would loop millions of times)
+    const step = Math.max(interval, 1 / fps);
+    for (let i = 0; start + i * step <= end + 1e-6; i++) {
+      const f = Math.min(timeToFrame(start + i * step, fps), lastFrame);
+      if (frames[frames.length - 1] !== f) frames.push(f);
+    }
+  }
+  return frames;
+};
+
+export default function BatchExtractor({
+  videoUrl,
+  videoName,
+  duration,
+  fps,
+  position,
+  startTimecode,
+  exportSettings,
+}: BatchExtractorProps) {
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(duration);
+  const [every, setEvery] = useState(1);
+  const [unit, setUnit] = useState<IntervalUnit>("seconds");
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [zipUrl, setZipUrl] = useState<string | null>(null);
+  const cancelRef = useRef(false);
+  const zipUrlRef = useRef<string | null>(null);
+
+  // Reset the range and any previous result when the video changes
+  useEffect(() => {
+    setStart(0);
+    setEnd(duration);
+    setZipUrl((prev) => {
+      if (prev) URL.revokeObjectURL(prev);
+      return null;
+    });
+  }, [videoUrl, duration]);
+
+  // A run in progress belongs to the previous video
+  useEffect(() => {
+    cancelRef.current = true;
+  }, [videoUrl]);
+
+  useEffect(() => {
+    zipUrlRef.current = zipUrl;
+  }, [zipUrl]);
+
+  useEffect(() => {
+    return () => {
+      cancelRef.current = true;
+      if (zipUrlRef.current) URL.revokeObjectURL(zipUrlRef.current);
+    };
+  }, []);
+
+  const frames = batchFrames(start, end, every, unit, fps, duration);
+
+  const runBatch = async () => {
+    if (frames.length === 0) return;
+
+    cancelRef.current = false;
+    setIsRunning(true);
+    setProgress({ done: 0, total: frames.length });
+    setZipUrl((prev) => {
+      if (prev) URL.revokeObjectURL(prev);
+      return null;
+    });
+
+    let video: HTMLVideoElement | null = null;
+    try {
+      // Work on a hidden copy so the player stays where the user left it
+      video = await loadVideo(videoUrl);
+      const files: NamedBlob[] = [];
+      const { extension } = getImageFormat(exportSettings.format);
+
+      for (let i = 0; i < frames.length; i++) {
+        if (cancelRef.current) return;
+
+        const { canvas, mediaTime } = await captureFrame(video, frameToTime(frames[i], fps));
+        const metadata = frameMetadata(videoName, mediaTime, fps, startTimecode);
+        const blob = await encodeCanvas(canvas, exportSettings, metadata);
+        files.push({ name: `frame_${timecodeForFileName(metadata.timecode)}.${extension}`, blob });
+        setProgress({ done: i + 1, total: frames.length });
+      }
+
+      if (cancelRef.current) return;
+      const zip = await zipFiles(files);
+      if (cancelRef.current) return;
+      setZipUrl(URL.createObjectURL(zip));
+    } catch (err) {
+      console.error("Batch extraction failed:", err);
+      alert("Batch extraction failed. Please try again.");
+    } finally {
+      if (video) releaseVideo(video);
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 grid gap-3">
+      <div className="font-medium">Batch extract</div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          Start (s):
+          <input
+            type="number"
+            min={0}
+            max={duration}
+            step={1 / fps}
+            value={Number(start.toFixed(3))}
+            onChange={(e) => setStart(Math.max(0, Number(e.target.value)))}
+            className="w-24 px-2 py-1 border rounded"
+            disabled={isRunning}
+          />
+          <button
+            onClick={() => setStart(position)}
+            className="px-2 py-1 border rounded hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+            disabled={isRunning}
+          >
+            Set to current
+          </button>
+        </label>
+        <label className="flex gap-2 items-center">
+          End (s):
+          <input
+            type="number"
+            min={0}
+            max={duration}
+            step={1 / fps}
+            value={Number(end.toFixed(3))}
+            onChange={(e) => setEnd(Math.min(duration, Number(e.target.value)))}
+            className="w-24 px-2 py-1 border rounded"
+            disabled={isRunning}
+          />
+          <button
+            onClick={() => setEnd(position)}
+            className="px-2 py-1 border rounded hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+            disabled={isRunning}
+          >
+            Set to current
+          </button>
+        </label>
+        <label className="flex gap-2 items-center">
+          Every
+          <input
+            type="number"
+            min={unit === "frames" ? 1 : 0.01}
+            step={unit === "frames" ? 1 : 0.1}
+            value={every}
+            onChange={(e) => setEvery(Number(e.target.value))}
+            className="w-20 px-2 py-1 border rounded"
+            disabled={isRunning}
+          />
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as IntervalUnit)}
+            className="px-2 py-1 border rounded"
+            disabled={isRunning}
+          >
+            <option value="seconds">seconds</option>
+            <option value="frames">frames</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        {isRunning ? (
+          <button
+            onClick={() => {
+              cancelRef.current = true;
+            }}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={runBatch}
+            disabled={frames.length === 0}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+          >
+            Extract {frames.length} frame{frames.length === 1 ? "" : "s"}
+          </button>
+        )}
+        {zipUrl && !isRunning && (
+          <a
+            href={zipUrl}
+            download={`${baseName(videoName)}_frames.zip`}
+            className="inline-flex items-center px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+          >
+            Download ZIP
+          </a>
+        )}
+      </div>
+
+      {isRunning && (
+        <div className="grid gap-1">
+          <progress value={progress.done} max={progress.total} className="w-full" />
+          <div className="text-xs opacity-60">
+            {progress.done} / {progress.total} frames
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CLIP_FORMATS, createClipEncoder, estimateClipSize, getSupportedClipFormats } from "./clipEncoders";
+import type { ClipEncoder, ClipFormat, ClipOptions } from "./clipEncoders";
+import { baseName } from "./downloads";
+import { formatFileSize } from "./imageFormats";
+import {
+  captureFrame,
+  frameToTime,
+  loadVideo,
+  releaseVideo,
+  timeToFrame,
+  totalFrames,
+} from "./videoFrames";
+
+interface ClipExporterProps {
+  videoUrl: string;
+  videoName: string;
+  duration: number;
+  fps: number;
+  position: number;
+}
+
+interface ClipResult {
+  url: string;
+  size: number;
+  format: ClipFormat;
+}
+
+// Clips are meant to be short
+const MAX_CLIP_FRAMES = 300;
+const SCALES = [0.25, 0.5, 0.75, 1];
+
+// Frame-aligned source times for each output frame between the in and out points
+const clipTimes = (start: number, end: number, outFps: number, fps: number, duration: number) => {
+  if (outFps <= 0 || end <= start) return [];
+  const lastFrame = totalFrames(duration, fps) - 1;
+  const count = Math.min(MAX_CLIP_FRAMES, Math.floor((end - start) * outFps) + 1);
+  return Array.from({ length: count }, (_, i) =>
+    frameToTime(Math.min(timeToFrame(start + i / outFps, fps), lastFrame), fps)
+  );
+};
+
+// Even dimensions keep the video encoders happy
+const scaledSize = (video: HTMLVideoElement, scale: number) => ({
+  width: Math.max(2, Math.round((video.videoWidth * scale) / 2) * 2),
+  height: Math.max(2, Math.round((video.videoHeight * scale) / 2) * 2),
+});
+
+export default function ClipExporter({ videoUrl, videoName, duration, fps, position }: ClipExporterProps) {
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(Math.min(duration, 3));
+  const [outFps, setOutFps] = useState(10);
+  const [scale, setScale] = useState(0.5);
+  const [loop, setLoop] = useState(true);
+  const [formats, setFormats] = useState<ClipFormat[]>(["gif"]);
+  const [format, setFormat] = useState<ClipFormat>("gif");
+  const [estimatedSize, setEstimatedSize] = useState<number | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<ClipResult | null>(null);
+  const cancelRef = useRef(false);
+  const resultUrlRef = useRef<string | null>(null);
+  // Hidden copy of the video used for size estimates
+  const videoPromiseRef = useRef<Promise<HTMLVideoElement> | null>(null);
+
+  useEffect(() => {
+    setFormats(getSupportedClipFormats());
+  }, []);
+
+  // Reset the range and any previous result when the video changes
+  useEffect(() => {
+    setStart(0);
+    setEnd(Math.min(duration, 3));
+    setResult((prev) => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return null;
+    });
+  }, [videoUrl, duration]);
+
+  // Release the hidden copy for size estimates when the video changes or the
+  // exporter goes away
+  useEffect(() => {
+    return () => {
+      const videoPromise = videoPromiseRef.current;
+      videoPromiseRef.current = null;
+      videoPromise?.then(releaseVideo).catch(() => {});
+    };
+  }, [videoUrl]);
+
+  useEffect(() => {
+    resultUrlRef.current = result?.url ?? null;
+  }, [result]);
+
+  useEffect(() => {
+    return () => {
+      cancelRef.current = true;
+      if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+    };
+  }, []);
+
+  const times = clipTimes(start, end, outFps, fps, duration);
+  const frameCount = times.length;
+
+  // Encode one frame from the middle of the range and extrapolate
+  useEffect(() => {
+    if (frameCount === 0) return;
+    setEstimatedSize(null);
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        if (!videoPromiseRef.current) videoPromiseRef.current = loadVideo(videoUrl);
+        const video = await videoPromiseRef.current;
+        const { canvas } = await captureFrame(video, (start + end) / 2);
+        const { width, height } = scaledSize(video, scale);
+        const sample = document.createElement("canvas");
+        sample.width = width;
+        sample.height = height;
+        sample.getContext("2d")?.drawImage(canvas, 0, 0, width, height);
+
+        const size = await estimateClipSize(format, { width, height, fps: outFps, loop }, sample, frameCount);
+        if (!cancelled) setEstimatedSize(size);
+      } catch (err) {
+        console.error("Clip size estimate failed:", err);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [videoUrl, start, end, outFps, scale, format, loop, frameCount]);
+
+  const renderClip = async () => {
+    if (frameCount === 0) return;
+
+    cancelRef.current = false;
+    setIsRunning(true);
+    setProgress({ done: 0, total: frameCount });
+    setResult((prev) => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return null;
+    });
+
+    let video: HTMLVideoElement | null = null;
+    let encoder: ClipEncoder | null = null;
+    let finished = false;
+    try {
+      // Work on a hidden copy so the player stays where the user left it
+      video = await loadVideo(videoUrl);
+      const { width, height } = scaledSize(video, scale);
+      const options: ClipOptions = { width, height, fps: outFps, loop };
+      encoder = createClipEncoder(format, options);
+
+      const output = document.createElement("canvas");
+      output.width = width;
+      output.height = height;
+      const ctx = output.getContext("2d", { willReadFrequently: true });
+      if (!ctx) throw new Error("Could not get canvas context");
+
+      for (let i = 0; i < times.length; i++) {
+        if (cancelRef.current) return;
+
+        const { canvas } = await captureFrame(video, times[i]);
+        ctx.drawImage(canvas, 0, 0, width, height);
+        await encoder.addFrame(output);
+        setProgress({ done: i + 1, total: times.length });
+      }
+
+      if (cancelRef.current) return;
+      const blob = await encoder.finish();
+      finished = true;
+      setResult({ url: URL.createObjectURL(blob), size: blob.size, format });
+    } catch (err) {
+      console.error("Clip export failed:", err);
+      alert("Failed to export the clip. Please try again.");
+    } finally {
+      // Cancelled or failed: don't leave a recorder running
+      if (!finished) encoder?.abort();
+      if (video) releaseVideo(video);
+      setIsRunning(false);
+    }
+  };
+
+  const resultFormat = CLIP_FORMATS.find((f) => f.id === result?.format);
+
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 grid gap-3">
+      <div className="font-medium">Export clip</div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          In (s):
+          <input
+            type="number"
+            min={0}
+            max={duration}
+            step={1 / fps}
+            value={Number(start.toFixed(3))}
+            onChange={(e) => setStart(Math.max(0, Number(e.target.value)))}
+            className="w-24 px-2 py-1 border rounded"
+            disabled={isRunning}
+          />
+          <button
+            onClick={() => setStart(position)}
+            className="px-2 py-1 border rounded hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+            disabled={isRunning}
+          >
+            Set to current
+          </button>
+        </label>
+        <label className="flex gap-2 items-center">
+          Out (s):
+          <input
+            type="number"
+            min={0}
+            max={duration}
+            step={1 / fps}
+            value={Number(end.toFixed(3))}
+            onChange={(e) => setEnd(Math.min(duration, Number(e.target.value)))}
+            className="w-24 px-2 py-1 border rounded"
+            disabled={isRunning}
+          />
+          <button
+            onClick={() => setEnd(position)}
+            className="px-2 py-1 border rounded hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+            disabled={isRunning}
+          >
+            Set to current
+          </button>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          Format:
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ClipFormat)}
+            className="px-2 py-1 border rounded"
+            disabled={isRunning}
+          >
+            {CLIP_FORMATS.filter((f) => formats.includes(f.id)).map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex gap-2 items-center">
+          Frame rate:
+          <input
+            type="number"
+            min={1}
+            max={Math.round(fps)}
+            value={outFps}
+            onChange={(e) => setOutFps(Math.min(Math.round(fps), Math.max(1, Math.round(Number(e.target.value)))))}
+            className="w-16 px-2 py-1 border rounded"
+            disabled={isRunning}
+          />
+          fps
+        </label>
+        <label className="flex gap-2 items-center">
+          Scale:
+          <select
+            value={scale}
+            onChange={(e) => setScale(Number(e.target.value))}
+            className="px-2 py-1 border rounded"
+            disabled={isRunning}
+          >
+            {SCALES.map((s) => (
+              <option key={s} value={s}>
+                {Math.round(s * 100)}%
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex gap-2 items-center">
+          <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} disabled={isRunning} />
+          Loop
+        </label>
+        {frameCount > 0 && (
+          <span className="opacity-60">
+            {frameCount} frame{frameCount === 1 ? "" : "s"}
+            {frameCount === MAX_CLIP_FRAMES && " (max)"} ·{" "}
+            {estimatedSize === null ? "Estimating size…" : `≈ ${formatFileSize(estimatedSize)}`}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        {isRunning ? (
+          <button
+            onClick={() => {
+              cancelRef.current = true;
+            }}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={renderClip}
+            disabled={frameCount === 0}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+          >
+            Render clip
+          </button>
+        )}
+        {result && resultFormat && !isRunning && (
+          <>
+            <a
+              href={result.url}
+              download={`${baseName(videoName)}_clip.${resultFormat.extension}`}
+              className="inline-flex items-center px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+            >
+              Download {resultFormat.extension.toUpperCase()}
+            </a>
+            <span className="text-sm opacity-60">{formatFileSize(result.size)}</span>
+          </>
+        )}
+      </div>
+
+      {isRunning && (
+        <div className="grid gap-1">
+          <progress value={progress.done} max={progress.total} className="w-full" />
+          <div className="text-xs opacity-60">
+            {progress.done < progress.total
+              ? `${progress.done} / ${progress.total} frames`
+              : "Encoding…"}
+          </div>
+        </div>
+      )}
+
+      {result && !isRunning &&
+        (result.format === "webm" ? (
+          <video src={result.url} controls autoPlay muted loop={loop} className="max-w-full rounded" />
+        ) : (
+          <img src={result.url} alt="Clip preview" className="max-w-full rounded" />
+        ))}
+    </div>
+  );
+}
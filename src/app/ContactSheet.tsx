@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { renderContactSheet } from "./contactSheet";
+import { baseName, downloadBlob } from "./downloads";
+import { encodeCanvas, getImageFormat } from "./imageFormats";
+import type { ExportSettings } from "./imageFormats";
+import { jpegToPdf } from "./pdf";
+import { formatTimecode, framesToTimecode } from "./timecode";
+import {
+  canvasToBlob,
+  captureFrame,
+  frameToTime,
+  loadVideo,
+  releaseVideo,
+  timeToFrame,
+  totalFrames,
+} from "./videoFrames";
+
+interface ContactSheetProps {
+  videoUrl: string;
+  videoName: string;
+  duration: number;
+  fps: number;
+  startTimecode: string;
+  // Cut times found by scene detection, empty until it has run
+  sceneCuts: number[];
+  exportSettings: ExportSettings;
+  onOpenInEditor: (imageUrl: string) => void;
+}
+
+type SampleSource = "even" | "scenes";
+
+interface SheetCapture {
+  canvas: HTMLCanvasElement;
+  time: number;
+}
+
+// Frames are kept at this width so layout changes don't need a recapture
+const MAX_TILE_WIDTH = 640;
+const MAX_FRAMES = 100;
+
+const shrink = (source: HTMLCanvasElement) => {
+  if (source.width <= MAX_TILE_WIDTH) return source;
+  const canvas = document.createElement("canvas");
+  canvas.width = MAX_TILE_WIDTH;
+  canvas.height = Math.max(1, Math.round((MAX_TILE_WIDTH * source.height) / source.width));
+  canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export default function ContactSheet({
+  videoUrl,
+  videoName,
+  duration,
+  fps,
+  startTimecode,
+  sceneCuts,
+  exportSettings,
+  onOpenInEditor,
+}: ContactSheetProps) {
+  const [source, setSource] = useState<SampleSource>("even");
+  const [count, setCount] = useState(12);
+  const [columns, setColumns] = useState(4);
+  const [tileWidth, setTileWidth] = useState(320);
+  const [margin, setMargin] = useState(24);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [showHeader, setShowHeader] = useState(true);
+  const [captures, setCaptures] = useState<SheetCapture[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const cancelRef = useRef(false);
+
+  useEffect(() => {
+    cancelRef.current = true;
+    setCaptures([]);
+  }, [videoUrl]);
+
+  useEffect(() => {
+    return () => {
+      cancelRef.current = true;
+    };
+  }, []);
+
+  const sampleTimes = () => {
+    const lastFrame = totalFrames(duration, fps) - 1;
+    const times =
+      source === "scenes"
+        ? // The opening shot has no cut in front of it
+          [0, ...sceneCuts]
+        : Array.from({ length: count }, (_, i) => ((i + 0.5) * duration) / count);
+    return times
+      .slice(0, MAX_FRAMES)
+      .map((t) => frameToTime(Math.min(timeToFrame(t, fps), lastFrame), fps));
+  };
+
+  const generate = async () => {
+    const times = sampleTimes();
+    if (times.length === 0) return;
+
+    cancelRef.current = false;
+    setIsRunning(true);
+    setProgress({ done: 0, total: times.length });
+    setCaptures([]);
+
+    let video: HTMLVideoElement | null = null;
+    try {
+      video = await loadVideo(videoUrl);
+      const result: SheetCapture[] = [];
+      for (let i = 0; i < times.length; i++) {
+        if (cancelRef.current) return;
+        const { canvas, mediaTime } = await captureFrame(video, times[i]);
+        result.push({ canvas: shrink(canvas), time: mediaTime });
+        setProgress({ done: i + 1, total: times.length });
+      }
+      setCaptures(result);
+    } catch (err) {
+      console.error("Contact sheet capture failed:", err);
+      alert("Failed to build the contact sheet. Please try again.");
+    } finally {
+      if (video) releaseVideo(video);
+      setIsRunning(false);
+    }
+  };
+
+  const sheet = useMemo(() => {
+    if (captures.length === 0) return null;
+    return renderContactSheet(
+      captures.map(({ canvas, time }) => ({
+        canvas,
+        caption: showCaptions ? formatTimecode(time, fps, startTimecode) : null,
+      })),
+      {
+        columns,
+        tileWidth,
+        margin,
+        title: showHeader ? videoName : null,
+        subtitle: showHeader
+          ? `${captures.length} frames · ${framesToTimecode(totalFrames(duration, fps), fps)} · ${Number(fps.toFixed(3))} fps`
+          : null,
+      }
+    );
+  }, [captures, columns, tileWidth, margin, showCaptions, showHeader, videoName, duration, fps, startTimecode]);
+
+  const previewUrl = useMemo(() => sheet?.toDataURL("image/jpeg", 0.85) ?? null, [sheet]);
+
+  const exportSheet = async (kind: "image" | "pdf") => {
+    if (!sheet) return;
+    setIsExporting(true);
+    try {
+      if (kind === "pdf") {
+        const jpeg = await canvasToBlob(sheet, "image/jpeg", 0.92);
+        const pdf = jpegToPdf(new Uint8Array(await jpeg.arrayBuffer()), sheet.width, sheet.height, videoName);
+        downloadBlob(pdf, `${baseName(videoName)}_contact_sheet.pdf`);
+      } else {
+        const { extension } = getImageFormat(exportSettings.format);
+        downloadBlob(await encodeCanvas(sheet, exportSettings), `${baseName(videoName)}_contact_sheet.${extension}`);
+      }
+    } catch (err) {
+      console.error("Contact sheet export failed:", err);
+      alert("Failed to export the contact sheet. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const frameCount = source === "scenes" ? Math.min(MAX_FRAMES, sceneCuts.length + 1) : count;
+  const canGenerate = source === "even" || sceneCuts.length > 0;
+
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 grid gap-3">
+      <div className="font-medium">Contact sheet</div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          Frames:
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value as SampleSource)}
+            className="px-2 py-1 border rounded"
+            disabled={isRunning}
+          >
+            <option value="even">Evenly spaced</option>
+            <option value="scenes">At scene cuts</option>
+          </select>
+        </label>
+        {source === "even" ? (
+          <label className="flex gap-2 items-center">
+            Count:
+            <input
+              type="number"
+              min={1}
+              max={MAX_FRAMES}
+              value={count}
+              onChange={(e) => setCount(Math.min(MAX_FRAMES, Math.max(1, Math.round(Number(e.target.value)))))}
+              className="w-16 px-2 py-1 border rounded"
+              disabled={isRunning}
+            />
+          </label>
+        ) : (
+          <span className="opacity-60">
+            {sceneCuts.length > 0 ? `${frameCount} shots` : "Run scene detection first"}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          Columns:
+          <input
+            type="number"
+            min={1}
+            max={12}
+            value={columns}
+            onChange={(e) => setColumns(Math.min(12, Math.max(1, Math.round(Number(e.target.value)))))}
+            className="w-16 px-2 py-1 border rounded"
+          />
+        </label>
+        <label className="flex gap-2 items-center">
+          Tile width:
+          <input
+            type="number"
+            min={80}
+            max={MAX_TILE_WIDTH}
+            step={20}
+            value={tileWidth}
+            onChange={(e) => setTileWidth(Math.min(MAX_TILE_WIDTH, Math.max(80, Math.round(Number(e.target.value)))))}
+            className="w-20 px-2 py-1 border rounded"
+          />
+          px
+        </label>
+        <label className="flex gap-2 items-center">
+          Margin:
+          <input
+            type="number"
+            min={0}
+            max={200}
+            value={margin}
+            onChange={(e) => setMargin(Math.min(200, Math.max(0, Math.round(Number(e.target.value)))))}
+            className="w-16 px-2 py-1 border rounded"
+          />
+          px
+        </label>
+        <label className="flex gap-2 items-center">
+          <input type="checkbox" checked={showCaptions} onChange={(e) => setShowCaptions(e.target.checked)} />
+          Timecodes
+        </label>
+        <label className="flex gap-2 items-center">
+          <input type="checkbox" checked={showHeader} onChange={(e) => setShowHeader(e.target.checked)} />
+          Filename header
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        {isRunning ? (
+          <button
+            onClick={() => {
+              cancelRef.current = true;
+            }}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={generate}
+            disabled={!canGenerate}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+          >
+            Build sheet
+          </button>
+        )}
+        {sheet && !isRunning && (
+          <>
+            <button
+              onClick={() => exportSheet("image")}
+              disabled={isExporting}
+              className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+            >
+              Download {getImageFormat(exportSettings.format).extension.toUpperCase()}
+            </button>
+            <button
+              onClick={() => exportSheet("pdf")}
+              disabled={isExporting}
+              className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+            >
+              Download PDF
+            </button>
+            <button
+              onClick={() => onOpenInEditor(sheet.toDataURL("image/png"))}
+              className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+            >
+              Open in editor
+            </button>
+            <span className="text-sm opacity-60">
+              {sheet.width} × {sheet.height}
+            </span>
+          </>
+        )}
+      </div>
+
+      {isRunning && (
+        <div className="grid gap-1">
+          <progress value={progress.done} max={progress.total} className="w-full" />
+          <div className="text-xs opacity-60">
+            {progress.done} / {progress.total} frames
+          </div>
+        </div>
+      )}
+
+      {previewUrl && !isRunning && (
+        <img
+          src={previewUrl}
+          alt="Contact sheet preview"
+          className="max-w-full rounded border border-black/[.08] dark:border-white/[.145]"
+        />
+      )}
+    </div>
+  );
+}
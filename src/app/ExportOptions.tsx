@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { IMAGE_FORMATS, formatFileSize, getImageFormat, getSupportedFormats } from "./imageFormats";
+import type { ExportSettings, ImageFormat } from "./imageFormats";
+
+interface ExportOptionsProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  // Size of the current output in the chosen format, null while it is computed
+  estimatedSize?: number | null;
+}
+
+export default function ExportOptions({ settings, onChange, estimatedSize }: ExportOptionsProps) {
+  // JPEG and PNG are always available; the rest is detected on the client
+  const [formats, setFormats] = useState<ImageFormat[]>(() =>
+    IMAGE_FORMATS.filter((format) => format.id === "jpeg" || format.id === "png")
+  );
+
+  useEffect(() => {
+    setFormats(getSupportedFormats());
+  }, []);
+
+  const format = getImageFormat(settings.format);
+
+  return (
+    <div className="flex flex-wrap gap-3 items-center text-sm">
+      <label className="flex gap-2 items-center">
+        Format:
+        <select
+          value={settings.format}
+          onChange={(e) => onChange({ ...settings, format: e.target.value as ExportSettings["format"] })}
+          className="px-2 py-1 border rounded"
+        >
+          {formats.map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={`flex gap-2 items-center ${format.lossy ? "" : "opacity-50"}`}>
+        Quality:
+        <input
+          type="range"
+          min={0.1}
+          max={1}
+          step={0.05}
+          value={settings.quality}
+          disabled={!format.lossy}
+          onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+        />
+        <span className="w-8">{Math.round(settings.quality * 100)}</span>
+      </label>
+      {estimatedSize !== undefined && (
+        <span className="opacity-60">
+          {estimatedSize === null ? "Estimating size…" : `≈ ${formatFileSize(estimatedSize)}`}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  frameToTime,
+  loadVideo,
+  releaseVideo,
+  seekVideo,
+  timeToFrame,
+  totalFrames,
+  videoThumbnail,
+} from "./videoFrames";
+
+interface FilmstripProps {
+  videoUrl: string;
+  duration: number;
+  fps: number;
+  position: number;
+  onSeek: (time: number) => void;
+}
+
+const TILE_COUNT = 16;
+
+interface TimelineView {
+  start: number;
+  end: number;
+}
+
+export default function Filmstrip({ videoUrl, duration, fps, position, onSeek }: FilmstripProps) {
+  const [view, setView] = useState<TimelineView>({ start: 0, end: duration });
+  const [thumbnails, setThumbnails] = useState<(string | null)[]>(() => Array(TILE_COUNT).fill(null));
+  const [hover, setHover] = useState<{ ratio: number; time: number } | null>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+
+  // Thumbnails are generated on a hidden copy of the video, one run at a time.
+  // Starting a new run (e.g. after zooming) abandons the previous one.
+  const videoPromiseRef = useRef<Promise<HTMLVideoElement> | null>(null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const runIdRef = useRef(0);
+  // Keyed by frame rate and frame index, since detection can change the rate
+  const cacheRef = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    const runId = runIdRef;
+    const videoPromise = videoPromiseRef;
+    return () => {
+      runId.current++;
+      videoPromise.current?.then(releaseVideo).catch(() => {});
+    };
+  }, []);
+
+  const span = view.end - view.start;
+  const minSpan = Math.min(duration, TILE_COUNT / fps);
+
+  useEffect(() => {
+    if (duration <= 0) return;
+
+    const runId = ++runIdRef.current;
+    const lastFrame = totalFrames(duration, fps) - 1;
+    const tileSpan = (view.end - view.start) / TILE_COUNT;
+    const frames = Array.from({ length: TILE_COUNT }, (_, i) =>
+      Math.min(timeToFrame(view.start + (i + 0.5) * tileSpan, fps), lastFrame)
+    );
+    setThumbnails(frames.map((frame) => cacheRef.current.get(`${fps}:${frame}`) ?? null));
+
+    queueRef.current = queueRef.current.then(async () => {
+      if (runId !== runIdRef.current) return;
+
+      if (!videoPromiseRef.current) videoPromiseRef.current = loadVideo(videoUrl);
+      let video: HTMLVideoElement;
+      try {
+        video = await videoPromiseRef.current;
+      } catch {
+        return;
+      }
+
+      for (let i = 0; i < frames.length; i++) {
+        if (runId !== runIdRef.current) return;
+        const key = `${fps}:${frames[i]}`;
+        let thumbnail = cacheRef.current.get(key);
+        if (!thumbnail) {
+          await seekVideo(video, frameToTime(frames[i], fps));
+          thumbnail = videoThumbnail(video);
+          cacheRef.current.set(key, thumbnail);
+        }
+        if (runId !== runIdRef.current) return;
+        const url = thumbnail;
+        setThumbnails((prev) => {
+          const next = [...prev];
+          next[i] = url;
+          return next;
+        });
+      }
+    });
+  }, [videoUrl, view, duration, fps]);
+
+  const clampView = useCallback((start: number, length: number): TimelineView => {
+    const clampedSpan = Math.min(duration, Math.max(minSpan, length));
+    const clampedStart = Math.min(Math.max(0, start), duration - clampedSpan);
+    return { start: clampedStart, end: clampedStart + clampedSpan };
+  }, [duration, minSpan]);
+
+  // Zoom keeping the time under the anchor (0..1 across the strip) in place
+  const zoomAt = useCallback((factor: number, anchor: number) => {
+    setView((prev) => {
+      const prevSpan = prev.end - prev.start;
+      const anchorTime = prev.start + anchor * prevSpan;
+      const nextSpan = prevSpan * factor;
+      return clampView(anchorTime - anchor * nextSpan, nextSpan);
+    });
+  }, [clampView]);
+
+  const panBy = useCallback((fraction: number) => {
+    setView((prev) => {
+      const prevSpan = prev.end - prev.start;
+      return clampView(prev.start + fraction * prevSpan, prevSpan);
+    });
+  }, [clampView]);
+
+  // Wheel zooms around the cursor, shift+wheel or horizontal scrolling pans.
+  // Registered natively because React wheel listeners are passive.
+  useEffect(() => {
+    const strip = stripRef.current;
+    if (!strip) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = strip.getBoundingClientRect();
+      if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        panBy((e.deltaX || e.deltaY) / rect.width);
+      } else {
+        zoomAt(e.deltaY < 0 ? 0.8 : 1.25, (e.clientX - rect.left) / rect.width);
+      }
+    };
+
+    strip.addEventListener("wheel", handleWheel, { passive: false });
+    return () => {
+      strip.removeEventListener("wheel", handleWheel);
+    };
+  }, [zoomAt, panBy]);
+
+  const pointerToTime = (clientX: number) => {
+    const rect = stripRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return { ratio, time: view.start + ratio * span };
+  };
+
+  // Zoom buttons anchor on the playhead when it is in view
+  const playheadAnchor = position >= view.start && position <= view.end ? (position - view.start) / (span || 1) : 0.5;
+  const hoverThumbnail = hover ? thumbnails[Math.min(TILE_COUNT - 1, Math.floor(hover.ratio * TILE_COUNT))] : null;
+
+  return (
+    <div className="grid gap-1">
+      <div
+        ref={stripRef}
+        className="relative flex h-14 rounded overflow-hidden border border-black/[.08] dark:border-white/[.145] cursor-pointer select-none"
+        onMouseMove={(e) => setHover(pointerToTime(e.clientX))}
+        onMouseLeave={() => setHover(null)}
+        onClick={(e) => {
+          const target = pointerToTime(e.clientX);
+          if (target) onSeek(target.time);
+        }}
+      >
+        {thumbnails.map((thumbnail, i) =>
+          thumbnail ? (
+            <img key={i} src={thumbnail} alt="" className="flex-1 min-w-0 h-full object-cover" draggable={false} />
+          ) : (
+            <div key={i} className="flex-1 min-w-0 h-full bg-black/[.08] dark:bg-white/[.08]" />
+          )
+        )}
+
+        {position >= view.start && position <= view.end && (
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-blue-500 pointer-events-none"
+            style={{ left: `${((position - view.start) / (span || 1)) * 100}%` }}
+          />
+        )}
+
+        {hover && (
+          <div
+            className="absolute top-0 bottom-0 w-px bg-white/80 pointer-events-none"
+            style={{ left: `${hover.ratio * 100}%` }}
+          />
+        )}
+      </div>
+
+      {hover && (
+        <div className="relative h-0">
+          <div
+            className="absolute bottom-16 z-10 -translate-x-1/2 grid gap-1 p-1 rounded bg-black/80 text-white text-xs pointer-events-none"
+            style={{ left: `${hover.ratio * 100}%` }}
+          >
+            {hoverThumbnail && <img src={hoverThumbnail} alt="" className="w-40 rounded" />}
+            <span className="text-center">{hover.time.toFixed(2)}s</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-xs opacity-80">
+        <span>{view.start.toFixed(2)}s</span>
+        <div className="flex gap-1 mx-auto">
+          <button
+            onClick={() => zoomAt(1.5, playheadAnchor)}
+            disabled={span >= duration}
+            className="px-2 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-50"
+            title="Zoom out"
+          >
+            −
+          </button>
+          <button
+            onClick={() => setView({ start: 0, end: duration })}
+            disabled={span >= duration}
+            className="px-2 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-50"
+            title="Show whole video"
+          >
+            Fit
+          </button>
+          <button
+            onClick={() => zoomAt(1 / 1.5, playheadAnchor)}
+            disabled={span <= minSpan}
+            className="px-2 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-50"
+            title="Zoom in (or scroll on the filmstrip)"
+          >
+            +
+          </button>
+        </div>
+        <span>{view.end.toFixed(2)}s</span>
+      </div>
+    </div>
+  );
+}
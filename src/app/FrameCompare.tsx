@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { downloadBlob } from "./downloads";
+import { COMPARE_MODES, composeComparison } from "./frameCompare";
+import type { CompareMode } from "./frameCompare";
+import { encodeCanvas, getImageFormat } from "./imageFormats";
+import type { ExportSettings } from "./imageFormats";
+
+export interface CompareFrame {
+  canvas: HTMLCanvasElement;
+  label: string;
+}
+
+interface FrameCompareProps {
+  // Extracted frames of every video in the library
+  frames: CompareFrame[];
+  exportSettings: ExportSettings;
+}
+
+const frameIndex = (frames: CompareFrame[], selected: HTMLCanvasElement | null, fallback: number) => {
+  const index = frames.findIndex((f) => f.canvas === selected);
+  return index >= 0 ? index : Math.max(0, fallback);
+};
+
+export default function FrameCompare({ frames, exportSettings }: FrameCompareProps) {
+  const [selectedA, setSelectedA] = useState<HTMLCanvasElement | null>(null);
+  const [selectedB, setSelectedB] = useState<HTMLCanvasElement | null>(null);
+  const [mode, setMode] = useState<CompareMode>("side-by-side");
+  const [wipe, setWipe] = useState(0.5);
+  const [opacity, setOpacity] = useState(0.5);
+  const [threshold, setThreshold] = useState(16);
+  const [isExporting, setIsExporting] = useState(false);
+  const viewRef = useRef<HTMLCanvasElement | null>(null);
+  const draggingRef = useRef(false);
+
+  // Until something is picked, compare the two most recent frames
+  const indexA = frameIndex(frames, selectedA, frames.length - 2);
+  const indexB = frameIndex(frames, selectedB, frames.length - 1);
+  const a = frames[indexA]?.canvas;
+  const b = frames[indexB]?.canvas;
+
+  const comparison = useMemo(() => {
+    if (!a || !b) return null;
+    return composeComparison(a, b, { mode, wipe, opacity, threshold });
+  }, [a, b, mode, wipe, opacity, threshold]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !comparison) return;
+    view.width = comparison.canvas.width;
+    view.height = comparison.canvas.height;
+    view.getContext("2d")?.drawImage(comparison.canvas, 0, 0);
+  }, [comparison]);
+
+  // Dragging across the image moves the wipe
+  const moveWipe = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setWipe(Math.min(1, Math.max(0, (e.clientX - rect.left) / (rect.width || 1))));
+  };
+
+  const exportComparison = async () => {
+    if (!comparison) return;
+    setIsExporting(true);
+    try {
+      const { extension } = getImageFormat(exportSettings.format);
+      downloadBlob(await encodeCanvas(comparison.canvas, exportSettings), `comparison_${mode}.${extension}`);
+    } catch (err) {
+      console.error("Comparison export failed:", err);
+      alert("Failed to export the comparison. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const sizeMismatch = a && b && (a.width !== b.width || a.height !== b.height);
+
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 grid gap-3">
+      <div className="font-medium">Compare frames</div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          A:
+          <select
+            value={indexA}
+            onChange={(e) => setSelectedA(frames[Number(e.target.value)].canvas)}
+            className="max-w-64 px-2 py-1 border rounded"
+          >
+            {frames.map((frame, i) => (
+              <option key={i} value={i}>
+                {frame.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex gap-2 items-center">
+          B:
+          <select
+            value={indexB}
+            onChange={(e) => setSelectedB(frames[Number(e.target.value)].canvas)}
+            className="max-w-64 px-2 py-1 border rounded"
+          >
+            {frames.map((frame, i) => (
+              <option key={i} value={i}>
+                {frame.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => {
+            setSelectedA(b ?? null);
+            setSelectedB(a ?? null);
+          }}
+          className="px-3 h-8 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+          title="Swap A and B"
+        >
+          ⇄ Swap
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          Mode:
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as CompareMode)}
+            className="px-2 py-1 border rounded"
+          >
+            {COMPARE_MODES.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {mode === "wipe" && (
+          <label className="flex gap-2 items-center">
+            Wipe:
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={wipe}
+              onChange={(e) => setWipe(Number(e.target.value))}
+            />
+            <span className="w-10">{Math.round(wipe * 100)}%</span>
+          </label>
+        )}
+        {mode === "onion" && (
+          <label className="flex gap-2 items-center">
+            B opacity:
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={opacity}
+              onChange={(e) => setOpacity(Number(e.target.value))}
+            />
+            <span className="w-10">{Math.round(opacity * 100)}%</span>
+          </label>
+        )}
+        {mode === "difference" && (
+          <label className="flex gap-2 items-center">
+            Threshold:
+            <input
+              type="range"
+              min={0}
+              max={128}
+              step={1}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+            />
+            <span className="w-10">{threshold}</span>
+          </label>
+        )}
+        {comparison?.changed != null && (
+          <span className="opacity-60">{(comparison.changed * 100).toFixed(2)}% of pixels differ</span>
+        )}
+      </div>
+
+      {comparison && (
+        <canvas
+          ref={viewRef}
+          onPointerDown={(e) => {
+            if (mode !== "wipe") return;
+            draggingRef.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            moveWipe(e);
+          }}
+          onPointerMove={(e) => {
+            if (draggingRef.current) moveWipe(e);
+          }}
+          onPointerUp={() => {
+            draggingRef.current = false;
+          }}
+          className={`w-full rounded border border-black/[.08] dark:border-white/[.145] ${
+            mode === "wipe" ? "cursor-ew-resize touch-none" : ""
+          }`}
+        />
+      )}
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <button
+          onClick={exportComparison}
+          disabled={!comparison || isExporting}
+          className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+        >
+          Download comparison
+        </button>
+        {sizeMismatch && mode !== "side-by-side" && (
+          <span className="text-sm opacity-60">The frames differ in size, so B is scaled to A.</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,72 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import * as fabric from "fabric";
 import type { Canvas, FabricObject } from "fabric";
+import AdjustmentsPanel from "./AdjustmentsPanel";
+import ExportOptions from "./ExportOptions";
+import LayersPanel from "./LayersPanel";
+import RedactionBar from "./RedactionBar";
+import StyleBar from "./StyleBar";
+import TextBar from "./TextBar";
+import {
+  DEFAULT_ANNOTATION_STYLE,
+  annotationScale,
+  applyStyle,
+  dashProps,
+  fillOf,
+  strokeProps,
+  styleOf,
+} from "./annotationStyle";
+import type { AnnotationStyle, StyleChange } from "./annotationStyle";
+import {
+  ARROW_HEADS,
+  arrowPath,
+  calloutPath,
+  createStepMarker,
+  nextStepNumber,
+  renumberSteps,
+  reshapePath,
+  setStepNumber,
+  stepMarkers,
+} from "./annotations";
+import type { ArrowHead } from "./annotations";
+import { ALIGNMENTS, alignObjects, distributeObjects } from "./arrange";
+import { copyCanvasToClipboard, pastedFiles, readAsDataUrl } from "./clipboard";
+import { attachImages, detachImages, pruneImages, registerImages } from "./documentImages";
+import type { DocumentImages } from "./documentImages";
+import { downloadBlob } from "./downloads";
+import { discardEditorSession, loadEditorSession, saveEditorSession } from "./editorSession";
+import type { EditorSession } from "./editorSession";
+import { DEFAULT_EXPORT_SETTINGS, encodeCanvas, getImageFormat } from "./imageFormats";
+import type { ExportSettings } from "./imageFormats";
+import { DEFAULT_ADJUSTMENTS, applyAdjustments, isNeutral } from "./imageAdjustments";
+import type { ImageAdjustments } from "./imageAdjustments";
+import type { FrameMetadata } from "./imageMetadata";
+import {
+  canGroup,
+  describeLayers,
+  findLayer,
+  forgetLayer,
+  isPinned,
+  layerObjects,
+  registerLayer,
+  resetInteractivity,
+  setInteractivity,
+} from "./layers";
+import { DEFAULT_REDACTION, Redaction, createRedaction, freehandPath, invalidateRedactions, rectanglePath } from "./redaction";
+import type { RedactionSettings } from "./redaction";
+import { DEFAULT_TEXT_STYLE, LabelText, fontFamily, loadFont, loadFonts, textProps, textStyleOf } from "./textStyle";
+import type { TextStyle } from "./textStyle";
+import { timecodeForFileName } from "./timecode";
 
 interface FrameEditorProps {
+  // False while the editor tab is hidden, so it ignores pastes meant for the grabber
+  isActive?: boolean;
   initialImage?: string | null;
+  // Where the initial image was grabbed from, written into exported files
+  initialMetadata?: FrameMetadata | null;
   onImageImport?: () => void;
+  // Whether an autosaved document from an earlier visit is waiting to be restored
+  onRestoreAvailableChange?: (available: boolean) => void;
 }
 
 const ASPECT_RATIOS = [
@@ -17,22 +79,110 @@ const ASPECT_RATIOS = [
   { label: "9:16", width: 720, height: 1280 },
 ];
 
-type Tool = "draw" | "rectangle" | "circle" | "line" | "text" | "crop";
+type Tool =
+  | "select"
+  | "draw"
+  | "rectangle"
+  | "circle"
+  | "line"
+  | "arrow"
+  | "callout"
+  | "step"
+  | "text"
+  | "redact"
+  | "crop";
 
-export default function FrameEditor({ initialImage, onImageImport }: FrameEditorProps) {
+// Documents keep the source's full resolution (4K frames included) and are
+// only scaled down for display, so a backing store at devicePixelRatio would
+// just multiply memory and run into browser canvas size limits
+const createFabricCanvas = (element: HTMLCanvasElement, width: number, height: number) =>
+  new fabric.Canvas(element, {
+    width,
+    height,
+    backgroundColor: "white",
+    selection: false,
+    enableRetinaScaling: false,
+  });
+
+const updateBrush = (canvas: Canvas, color: string, style: AnnotationStyle) => {
+  const brush = canvas.freeDrawingBrush;
+  if (!brush) return;
+  const width = style.strokeWidth * annotationScale(canvas);
+  brush.color = color;
+  brush.width = width;
+  brush.strokeDashArray = dashProps(style.lineStyle, width, true).strokeDashArray;
+};
+
+const EXPORT_SCALES = [0.5, 1, 2];
+// Largest render the export size estimate encodes, in pixels
+const ESTIMATE_PIXELS = 1_000_000;
+
+// View of the document: zoom factor (null follows the fit-to-view scale) and
+// the offset of the document centre from the viewport centre, in screen pixels
+interface ViewState {
+  zoom: number | null;
+  x: number;
+  y: number;
+}
+
+const FIT_VIEW: ViewState = { zoom: null, x: 0, y: 0 };
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 16;
+const ZOOM_PRESETS = [1, 2];
+const MINIMAP_SIZE = 160;
+
+// Keys pressed in a form field or while editing text are not shortcuts
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement);
+
+// Part of the document inside the viewport, in document pixels
+const visibleRegion = (container: HTMLElement, canvas: Canvas, view: ViewState, scale: number) => ({
+  left: canvas.width / 2 + (-container.clientWidth / 2 - view.x) / scale,
+  top: canvas.height / 2 + (-container.clientHeight / 2 - view.y) / scale,
+  width: container.clientWidth / scale,
+  height: container.clientHeight / scale,
+});
+
+const AUTOSAVE_DELAY = 1000;
+
+export default function FrameEditor({
+  isActive = true,
+  initialImage,
+  initialMetadata,
+  onImageImport,
+  onRestoreAvailableChange,
+}: FrameEditorProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fabricCanvasRef = useRef<Canvas | null>(null);
   const [selectedTool, setSelectedTool] = useState<Tool>("draw");
   const [selectedColor, setSelectedColor] = useState("#ff0000");
+  const [annotationStyle, setAnnotationStyle] = useState<AnnotationStyle>(DEFAULT_ANNOTATION_STYLE);
+  const [textStyle, setTextStyle] = useState<TextStyle>(DEFAULT_TEXT_STYLE);
+  const [redaction, setRedaction] = useState<RedactionSettings>(DEFAULT_REDACTION);
+  const [arrowHead, setArrowHead] = useState<ArrowHead>("end");
+  // Read by the tool handlers, so a style change doesn't reset the active tool
+  const styleRef = useRef({ color: selectedColor, style: annotationStyle, text: textStyle, redaction });
+  // A slider or colour drag restyled the selection but isn't in history yet
+  const pendingStyleRef = useRef(false);
   const [, forceUpdate] = useState({});
   const [canvasScale, setCanvasScale] = useState(1);
+  const [view, setView] = useState<ViewState>(FIT_VIEW);
+  // Space held down turns the pointer into a hand for panning
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const panStartRef = useRef<{ x: number; y: number; viewX: number; viewY: number } | null>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
   const [canvasInitialized, setCanvasInitialized] = useState(0); // Counter to track canvas initialization
   const containerRef = useRef<HTMLDivElement>(null);
   const historyRef = useRef<string[]>([]);
   const historyIndexRef = useRef<number>(-1);
+  // Images the history entries refer to by id
+  const imagesRef = useRef<DocumentImages>(new Map());
   const isDrawingRef = useRef(false);
   const isLoadingHistory = useRef(false);
   const loadedImageRef = useRef<string | null>(null);
+  const sourceMetadataRef = useRef<FrameMetadata | null>(null);
   const [showNewFrameDialog, setShowNewFrameDialog] = useState(false);
   const [selectedNewFrameAspectRatio, setSelectedNewFrameAspectRatio] = useState(0);
   const [cropAspectRatio, setCropAspectRatio] = useState<number>(0); // Default to 16:9
@@ -41,6 +191,20 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
   const cropRectRef = useRef<fabric.Rect | null>(null);
   const cropOverlayRef = useRef<fabric.Group | null>(null);
   const [hasCropSelection, setHasCropSelection] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exportSize, setExportSize] = useState<number | null>(null);
+  // Output size relative to the document's native resolution
+  const [exportScale, setExportScale] = useState(1);
+  const [copied, setCopied] = useState(false);
+  // Image pasted onto an existing frame, waiting for "new frame" or "overlay"
+  const [pastedImage, setPastedImage] = useState<string | null>(null);
+  // Autosaved document found on load, until it is restored or discarded
+  const [savedSession, setSavedSession] = useState<EditorSession | null>(null);
+  // Nothing is autosaved until the earlier session has been looked for, so it
+  // can't be overwritten before the user has had a say
+  const [sessionChecked, setSessionChecked] = useState(false);
+  // Layers picked in the layers panel, by layer id
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
 
   // Helper to trigger re-render when history changes
   const updateHistory = (newHistory: string[], newIndex: number) => {
@@ -75,14 +239,37 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     setCanvasScale(paddedScale);
   }, []);
 
+  const viewScale = view.zoom ?? canvasScale;
+
+  // Change the zoom keeping the document point under clientPoint (or under
+  // the viewport centre) where it is
+  const zoomAt = useCallback((update: (current: number) => number, clientPoint?: { x: number; y: number }) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const px = clientPoint ? clientPoint.x - rect.left - rect.width / 2 : 0;
+    const py = clientPoint ? clientPoint.y - rect.top - rect.height / 2 : 0;
+
+    setView((prev) => {
+      const current = prev.zoom ?? canvasScale;
+      const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, update(current)));
+      return {
+        zoom: next,
+        x: px - ((px - prev.x) * next) / current,
+        y: py - ((py - prev.y) * next) / current,
+      };
+    });
+  }, [canvasScale]);
+
   // History management functions (defined before effects that use them)
   const saveHistory = useCallback(() => {
     if (!fabricCanvasRef.current || isLoadingHistory.current) return;
     const canvas = fabricCanvasRef.current;
     
-    // Save canvas state including dimensions
+    // Save canvas state including dimensions, with images by reference
+    registerImages(canvas, imagesRef.current);
     const state = {
-      canvas: canvas.toJSON(),
+      canvas: detachImages(canvas.toJSON()),
       width: canvas.width,
       height: canvas.height
     };
@@ -96,6 +283,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     while (newHistory.length > 50) {
       newHistory.shift();
     }
+    pruneImages(imagesRef.current, newHistory);
     
     updateHistory(newHistory, newHistory.length - 1);
   }, []);
@@ -116,7 +304,8 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
         height: state.height
       });
       
-      canvas.loadFromJSON(state.canvas).then(() => {
+      canvas.loadFromJSON(attachImages(state.canvas, imagesRef.current)).then(() => {
+        resetInteractivity(canvas);
         canvas.renderAll();
         updateHistory(history, newIndex);
         isLoadingHistory.current = false;
@@ -141,7 +330,8 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
         height: state.height
       });
       
-      canvas.loadFromJSON(state.canvas).then(() => {
+      canvas.loadFromJSON(attachImages(state.canvas, imagesRef.current)).then(() => {
+        resetInteractivity(canvas);
         canvas.renderAll();
         updateHistory(history, newIndex);
         isLoadingHistory.current = false;
@@ -167,32 +357,16 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
             selectable: false,
             evented: false,  // Don't capture mouse events
           });
+          fabricImg.isBase = true;
           
-          // For uploaded images, we need to maintain the canvas dimensions that were set
-          // The canvas already has the right dimensions from the initial load
-          const imageWidth = fabricImg.width!;
-          const imageHeight = fabricImg.height!;
-          
-          // Maintain reasonable size
-          let scale = 1;
-          const maxHeight = 720;
-          if (imageHeight > maxHeight) {
-            scale = maxHeight / imageHeight;
-          }
-          
-          const newWidth = Math.ceil(imageWidth * scale) + 1;
-          const newHeight = Math.ceil(imageHeight * scale) + 1;
-          
-          // Only resize canvas if dimensions don't match (for uploaded images)
-          if (canvas.width !== newWidth || canvas.height !== newHeight) {
+          // Back to the image's own pixel size (a crop may have changed it)
+          if (canvas.width !== fabricImg.width || canvas.height !== fabricImg.height) {
             canvas.setDimensions({
-              width: newWidth,
-              height: newHeight
+              width: fabricImg.width,
+              height: fabricImg.height
             });
           }
           
-          const exactScale = newWidth / imageWidth;
-          fabricImg.scale(exactScale);
           fabricImg.set({
             left: 0,
             top: 0,
@@ -242,6 +416,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     
     // Clear loaded image reference since we're creating a new frame
     loadedImageRef.current = null;
+    sourceMetadataRef.current = null;
     
     // Close dialog and show canvas
     setShowNewFrameDialog(false);
@@ -256,12 +431,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
       
       // Create fabric canvas if it doesn't exist
       if (!fabricCanvasRef.current) {
-        const canvas = new fabric.Canvas(canvasRef.current, {
-          width: aspectRatio.width,
-          height: aspectRatio.height,
-          backgroundColor: "white",
-          selection: false,
-        });
+        const canvas = createFabricCanvas(canvasRef.current, aspectRatio.width, aspectRatio.height);
         fabricCanvasRef.current = canvas;
         setCanvasInitialized(prev => prev + 1); // Trigger tool effect re-run
       } else {
@@ -286,6 +456,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
         selectable: false,
         evented: false,  // Don't capture mouse events
       });
+      bg.isBase = true;
       canvas.add(bg);
       canvas.renderAll();
       
@@ -303,104 +474,87 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     }, 50); // Small delay to ensure DOM is rendered
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Replace the canvas with an uploaded or pasted image
+  const importImage = useCallback((imgUrl: string) => {
+    // Clear loaded image reference
+    loadedImageRef.current = null;
+    sourceMetadataRef.current = null;
+    
+    // Show canvas
+    setHasCanvas(true);
     
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const imgUrl = event.target?.result as string;
-      if (!imgUrl) return;
+    // Wait for canvas element to be rendered in DOM
+    setTimeout(() => {
+      if (!canvasRef.current) {
+        console.error("Canvas element not found in DOM");
+        return;
+      }
       
-      // Clear loaded image reference
-      loadedImageRef.current = null;
+      // Create fabric canvas if it doesn't exist
+      if (!fabricCanvasRef.current) {
+        const canvas = createFabricCanvas(canvasRef.current, ASPECT_RATIOS[0].width, ASPECT_RATIOS[0].height);
+        fabricCanvasRef.current = canvas;
+        setCanvasInitialized(prev => prev + 1); // Trigger tool effect re-run
+      }
       
-      // Show canvas
-      setHasCanvas(true);
+      const canvas = fabricCanvasRef.current;
+      const imgElement = new Image();
+      imgElement.crossOrigin = 'anonymous';
       
-      // Wait for canvas element to be rendered in DOM
-      setTimeout(() => {
-        if (!canvasRef.current) {
-          console.error("Canvas element not found in DOM");
-          return;
-        }
+      imgElement.onload = () => {
+        // Clear canvas
+        canvas.clear();
         
-        // Create fabric canvas if it doesn't exist
-        if (!fabricCanvasRef.current) {
-          const canvas = new fabric.Canvas(canvasRef.current, {
-            width: ASPECT_RATIOS[0].width,
-            height: ASPECT_RATIOS[0].height,
-            backgroundColor: "white",
-            selection: false,
-          });
-          fabricCanvasRef.current = canvas;
-          setCanvasInitialized(prev => prev + 1); // Trigger tool effect re-run
-        }
+        // Create fabric image
+        const fabricImg = new fabric.Image(imgElement, {
+          selectable: false,
+          evented: false,  // Don't capture mouse events
+        });
+        fabricImg.isBase = true;
         
-        const canvas = fabricCanvasRef.current;
-        const imgElement = new Image();
-        imgElement.crossOrigin = 'anonymous';
+        // Resize canvas to the image's own pixel size; only the view is scaled
+        canvas.setDimensions({
+          width: fabricImg.width,
+          height: fabricImg.height
+        });
         
-        imgElement.onload = () => {
-          // Clear canvas
-          canvas.clear();
-          
-          // Create fabric image
-          const fabricImg = new fabric.Image(imgElement, {
-            selectable: false,
-            evented: false,  // Don't capture mouse events
-          });
-          
-          // Resize canvas to match image
-          const imageWidth = fabricImg.width!;
-          const imageHeight = fabricImg.height!;
-          
-          // Maintain reasonable size
-          let scale = 1;
-          const maxHeight = 720;
-          if (imageHeight > maxHeight) {
-            scale = maxHeight / imageHeight;
+        fabricImg.set({
+          left: 0,
+          top: 0,
+          originX: 'left',
+          originY: 'top'
+        });
+        
+        canvas.add(fabricImg);
+        canvas.renderAll();
+        
+        // Reset history
+        historyRef.current = [];
+        historyIndexRef.current = -1;
+        setTimeout(() => {
+          // Check canvas still exists before saving history
+          if (fabricCanvasRef.current) {
+            saveHistory();
+            updateCanvasScale();
           }
-          
-          const newWidth = Math.ceil(imageWidth * scale) + 1;
-          const newHeight = Math.ceil(imageHeight * scale) + 1;
-          
-          canvas.setDimensions({
-            width: newWidth,
-            height: newHeight
-          });
-          
-          const exactScale = newWidth / imageWidth;
-          fabricImg.scale(exactScale);
-          fabricImg.set({
-            left: 0,
-            top: 0,
-            originX: 'left',
-            originY: 'top'
-          });
-          
-          canvas.add(fabricImg);
-          canvas.renderAll();
-          
-          // Reset history
-          historyRef.current = [];
-          historyIndexRef.current = -1;
-          setTimeout(() => {
-            // Check canvas still exists before saving history
-            if (fabricCanvasRef.current) {
-              saveHistory();
-              updateCanvasScale();
-            }
-          }, 100);
-          
-          if (onImageImport) onImageImport();
-        };
+        }, 100);
         
-        imgElement.src = imgUrl;
-      }, 50); // Small delay to ensure DOM is rendered
-    };
+        if (onImageImport) onImageImport();
+      };
+      
+      imgElement.src = imgUrl;
+    }, 50); // Small delay to ensure DOM is rendered
+  }, [saveHistory, updateCanvasScale, onImageImport]);
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
     
-    reader.readAsDataURL(file);
+    readAsDataUrl(file)
+      .then(importImage)
+      .catch((err) => {
+        console.error("Failed to read image:", err);
+      });
     
     // Clear input value to allow re-uploading same file
     if (fileInputRef.current) {
@@ -408,18 +562,398 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     }
   };
 
-  const downloadCanvas = () => {
+  // Place an image on top of the current frame, scaled to fit and centred
+  const addImageOverlay = async (imgUrl: string) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+    try {
+      const image = await fabric.Image.fromURL(imgUrl);
+      const scale = Math.min(1, (canvas.width * 0.8) / image.width, (canvas.height * 0.8) / image.height);
+      image.scale(scale);
+      canvas.add(image);
+      canvas.centerObject(image);
+      // Leave it selected so it can be moved and resized straight away
+      canvas.setActiveObject(image);
+      canvas.renderAll();
+      saveHistory();
+    } catch (err) {
+      console.error("Failed to paste image:", err);
+      alert("Failed to paste the image. Please try again.");
+    }
+  };
+
+  const copyCanvas = async () => {
+    if (!fabricCanvasRef.current) return;
+    try {
+      await copyCanvasToClipboard(fabricCanvasRef.current.toCanvasElement(1));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Copy to clipboard failed:", err);
+      alert("Failed to copy the frame. Your browser may not allow copying images.");
+    }
+  };
+
+  const downloadCanvas = async () => {
     if (!fabricCanvasRef.current) return;
     const canvas = fabricCanvasRef.current;
-          const dataURL = canvas.toDataURL({
-        format: "jpeg",
-        quality: 0.9,
-        multiplier: 1, // Export at original size, not display scale
+    try {
+      // Export at the document's own resolution times the export scale, never the display scale.
+      // Redactions only ever draw processed pixels, so this flattens them into the output.
+      const blob = await encodeCanvas(canvas.toCanvasElement(exportScale), exportSettings, sourceMetadataRef.current);
+      const source = sourceMetadataRef.current;
+      const name = source ? `edited-frame_${timecodeForFileName(source.timecode)}` : "edited-frame";
+      downloadBlob(blob, `${name}.${getImageFormat(exportSettings.format).extension}`);
+    } catch (err) {
+      console.error("Failed to export frame:", err);
+      alert("Failed to export frame. Please try again.");
+    }
+  };
+
+  // --- Selection -----------------------------------------------------------
+
+  const deleteSelection = useCallback(() => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+    const objects = canvas.getActiveObjects().filter((obj) => !isPinned(obj));
+    if (objects.length === 0) return;
+    canvas.discardActiveObject();
+    canvas.remove(...objects);
+    renumberSteps(canvas);
+    canvas.renderAll();
+    saveHistory();
+  }, [saveHistory]);
+
+  // Copies land slightly offset from the originals and become the selection
+  const duplicateSelection = useCallback(async () => {
+    const canvas = fabricCanvasRef.current;
+    const active = canvas?.getActiveObject();
+    if (!canvas || !active) return;
+    try {
+      const copy = await active.clone();
+      const offset = 10 * annotationScale(canvas);
+      canvas.discardActiveObject();
+      copy.set({ left: copy.left + offset, top: copy.top + offset });
+
+      const copies = copy instanceof fabric.ActiveSelection ? copy.getObjects() : [copy];
+      copies.forEach((obj) => {
+        forgetLayer(obj);
+        setInteractivity(canvas, obj);
+      });
+      // Copied step markers continue the sequence
+      let step = nextStepNumber(canvas);
+      stepMarkers(copies).forEach((marker) => setStepNumber(marker, step++));
+
+      if (copy instanceof fabric.ActiveSelection) {
+        copy.canvas = canvas;
+        copies.forEach((obj) => canvas.add(obj));
+        copy.setCoords();
+      } else {
+        canvas.add(copy);
+      }
+      canvas.setActiveObject(copy);
+      canvas.renderAll();
+      saveHistory();
+    } catch (err) {
+      console.error("Duplicate failed:", err);
+      alert("Failed to duplicate the selection. Please try again.");
+    }
+  }, [saveHistory]);
+
+  // Align or distribute the selected objects. Members of an active selection
+  // are positioned relative to it, so it is dissolved while they move.
+  const arrangeSelection = (arrange: (objects: FabricObject[]) => void) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+    const objects = canvas.getActiveObjects();
+    if (objects.length < 2) return;
+    canvas.discardActiveObject();
+    arrange(objects);
+    canvas.setActiveObject(new fabric.ActiveSelection(objects, { canvas }));
+    canvas.renderAll();
+    saveHistory();
+  };
+
+  // Style bar and color changes set the style for new annotations and restyle
+  // whatever is selected
+  const changeStyle = (change: StyleChange, commit: boolean) => {
+    const { color, ...style } = change;
+    if (color) setSelectedColor(color);
+    setAnnotationStyle((prev) => ({ ...prev, ...style }));
+
+    const canvas = fabricCanvasRef.current;
+    const objects = canvas?.getActiveObjects().filter((obj) => !isPinned(obj)) ?? [];
+    if (!canvas || objects.length === 0) return;
+    objects.forEach((obj) => applyStyle(obj, change, annotationScale(canvas)));
+    canvas.getActiveObject()?.setCoords();
+    canvas.renderAll();
+    if (commit) {
+      saveHistory();
+    } else {
+      pendingStyleRef.current = true;
+    }
+  };
+
+  const commitStyle = () => {
+    if (!pendingStyleRef.current) return;
+    pendingStyleRef.current = false;
+    saveHistory();
+  };
+
+  // Redaction settings apply to new regions and to selected ones
+  const selectedRedactions = () =>
+    (fabricCanvasRef.current?.getActiveObjects() ?? []).filter((obj) => obj instanceof Redaction);
+
+  const changeRedaction = (change: Partial<RedactionSettings>, commit: boolean) => {
+    setRedaction((prev) => ({ ...prev, ...change }));
+
+    const canvas = fabricCanvasRef.current;
+    const regions = selectedRedactions();
+    if (!canvas || regions.length === 0 || (change.mode === undefined && change.strength === undefined)) return;
+    regions.forEach((region) => {
+      if (change.mode !== undefined) region.redactMode = change.mode;
+      if (change.strength !== undefined) region.redactStrength = change.strength;
+    });
+    canvas.renderAll();
+    if (commit) {
+      saveHistory();
+    } else {
+      pendingStyleRef.current = true;
+    }
+  };
+
+  // Text objects among the selection, including one being typed into
+  const selectedTexts = () =>
+    (fabricCanvasRef.current?.getActiveObjects() ?? []).filter(
+      (obj): obj is fabric.FabricText => obj instanceof fabric.FabricText && !isPinned(obj)
+    );
+
+  const changeTextStyle = (change: Partial<TextStyle>, commit: boolean) => {
+    setTextStyle((prev) => ({ ...prev, ...change }));
+
+    const canvas = fabricCanvasRef.current;
+    const texts = selectedTexts();
+    if (!canvas || texts.length === 0) return;
+    const props = textProps(change, annotationScale(canvas));
+    texts.forEach((text) => {
+      text.set(props);
+      text.initDimensions();
+      text.setCoords();
+    });
+    canvas.getActiveObject()?.setCoords();
+    canvas.renderAll();
+    if (change.font) {
+      loadFont(canvas, fontFamily(change.font)).catch((err) => {
+        console.error("Font load failed:", err);
+      });
+    }
+    if (commit) {
+      saveHistory();
+    } else {
+      pendingStyleRef.current = true;
+    }
+  };
+
+  // Adjustments filter the base frame's pixels only; the original image and
+  // the annotations on top are left alone
+  const baseImage = () => {
+    const base = fabricCanvasRef.current?.getObjects().find((obj) => obj.isBase);
+    return base instanceof fabric.FabricImage ? base : undefined;
+  };
+
+  const changeAdjustments = (change: Partial<ImageAdjustments>, commit: boolean) => {
+    const canvas = fabricCanvasRef.current;
+    const image = baseImage();
+    if (!canvas || !image) return;
+    applyAdjustments(image, { ...(image.imageAdjustments ?? DEFAULT_ADJUSTMENTS), ...change });
+    // Redactions show a processed copy of the frame, which is now stale
+    invalidateRedactions(image);
+    canvas.renderAll();
+    forceUpdate({});
+    if (commit) {
+      saveHistory();
+    } else {
+      pendingStyleRef.current = true;
+    }
+  };
+
+  const resetAdjustments = () => {
+    const image = baseImage();
+    if (!image?.imageAdjustments || isNeutral(image.imageAdjustments)) return;
+    changeAdjustments(DEFAULT_ADJUSTMENTS, true);
+  };
+
+  // --- Layers --------------------------------------------------------------
+
+  const updateLayer = (id: string, update: (obj: FabricObject, canvas: Canvas) => void) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+    const obj = findLayer(canvas, id);
+    if (!obj) return;
+    update(obj, canvas);
+    canvas.renderAll();
+    saveHistory();
+  };
+
+  const selectLayer = (id: string, additive: boolean) => {
+    let ids = [id];
+    if (additive) {
+      ids = selectedLayerIds.includes(id)
+        ? selectedLayerIds.filter((selected) => selected !== id)
+        : [...selectedLayerIds, id];
+    }
+
+    // With the select tool the panel picks the objects on the canvas too
+    const canvas = fabricCanvasRef.current;
+    if (canvas && selectedTool === "select") {
+      const objects = ids
+        .map((layerId) => findLayer(canvas, layerId))
+        .filter((obj): obj is FabricObject => !!obj && obj.selectable && obj.visible);
+      canvas.discardActiveObject();
+      if (objects.length === 1) {
+        canvas.setActiveObject(objects[0]);
+      } else if (objects.length > 1) {
+        canvas.setActiveObject(new fabric.ActiveSelection(objects, { canvas }));
+      }
+      canvas.renderAll();
+    }
+    // After the canvas, whose selection events would overwrite it otherwise
+    setSelectedLayerIds(ids);
+  };
+
+  const renameLayer = (id: string, name: string) => {
+    updateLayer(id, (obj) => {
+      obj.name = name;
+    });
+  };
+
+  const toggleLayerVisible = (id: string) => {
+    updateLayer(id, (obj, canvas) => {
+      obj.set("visible", !obj.visible);
+      if (!obj.visible && canvas.getActiveObjects().includes(obj)) canvas.discardActiveObject();
+    });
+  };
+
+  const toggleLayerLock = (id: string) => {
+    updateLayer(id, (obj, canvas) => {
+      if (obj.isBase) return;
+      obj.locked = !obj.locked;
+      if (obj.locked && canvas.getActiveObjects().includes(obj)) canvas.discardActiveObject();
+      setInteractivity(canvas, obj);
+    });
+  };
+
+  const deleteLayer = (id: string) => {
+    updateLayer(id, (obj, canvas) => {
+      if (obj.isBase) return;
+      if (canvas.getActiveObjects().includes(obj)) canvas.discardActiveObject();
+      canvas.remove(obj);
+      renumberSteps(canvas);
+    });
+    setSelectedLayerIds((prev) => prev.filter((selected) => selected !== id));
+  };
+
+  const moveLayer = (id: string, targetId: string) => {
+    updateLayer(id, (obj, canvas) => {
+      const target = findLayer(canvas, targetId);
+      if (!target || obj.isBase) return;
+      // Nothing goes below the frame
+      const floor = canvas.getObjects()[0]?.isBase ? 1 : 0;
+      canvas.moveObjectTo(obj, Math.max(floor, canvas.getObjects().indexOf(target)));
+    });
+  };
+
+  const groupLayers = () => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+    const objects = layerObjects(canvas).filter((obj) => obj.layerId && selectedLayerIds.includes(obj.layerId));
+    if (objects.length < 2 || !objects.every(canGroup)) return;
+
+    // The group takes the place of its bottom-most member in the stack
+    const index = canvas.getObjects().indexOf(objects[0]);
+    canvas.discardActiveObject();
+    canvas.remove(...objects);
+    const group = new fabric.Group(objects);
+    canvas.insertAt(index, group);
+    setInteractivity(canvas, group);
+    setSelectedLayerIds(group.layerId ? [group.layerId] : []);
+    canvas.renderAll();
+    saveHistory();
+  };
+
+  const ungroupLayer = () => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas || selectedLayerIds.length !== 1) return;
+    const group = findLayer(canvas, selectedLayerIds[0]);
+    // A step marker is a group only under the hood
+    if (!(group instanceof fabric.Group) || group.annotationType === "step") return;
+
+    const index = canvas.getObjects().indexOf(group);
+    canvas.discardActiveObject();
+    // Members come back in canvas coordinates, where they were on screen
+    const members = group.removeAll();
+    canvas.remove(group);
+    canvas.insertAt(index, ...members);
+    members.forEach((obj) => setInteractivity(canvas, obj));
+    setSelectedLayerIds(members.map((obj) => obj.layerId ?? "").filter(Boolean));
+    canvas.renderAll();
+    saveHistory();
+  };
+
+  const restoreSession = () => {
+    const session = savedSession;
+    if (!session) return;
+    setSavedSession(null);
+    loadedImageRef.current = null;
+    sourceMetadataRef.current = session.metadata;
+    setHasCanvas(true);
+
+    // Wait for canvas element to be rendered in DOM
+    setTimeout(() => {
+      if (!canvasRef.current) {
+        console.error("Canvas element not found in DOM");
+        return;
+      }
+
+      if (!fabricCanvasRef.current) {
+        const canvas = createFabricCanvas(canvasRef.current, ASPECT_RATIOS[0].width, ASPECT_RATIOS[0].height);
+        fabricCanvasRef.current = canvas;
+        setCanvasInitialized(prev => prev + 1); // Trigger tool effect re-run
+      }
+
+      const canvas = fabricCanvasRef.current;
+      const state = JSON.parse(session.history[session.historyIndex]);
+      isLoadingHistory.current = true;
+      canvas.setDimensions({
+        width: state.width,
+        height: state.height
+      });
+
+      imagesRef.current = new Map(session.images);
+      canvas.loadFromJSON(attachImages(state.canvas, imagesRef.current)).then(() => {
+        resetInteractivity(canvas);
+        // A restored document may use a web font not loaded yet
+        loadFonts(canvas).catch((err) => {
+          console.error("Font load failed:", err);
+        });
+        canvas.renderAll();
+        updateHistory(session.history, session.historyIndex);
+        isLoadingHistory.current = false;
+        updateCanvasScale();
+        if (onImageImport) onImageImport();
+      }).catch((err) => {
+        isLoadingHistory.current = false;
+        console.error("Failed to restore editor session:", err);
+        alert("Failed to restore your previous edits.");
       });
-    const link = document.createElement("a");
-    link.download = "edited-frame.jpg";
-    link.href = dataURL;
-    link.click();
+    }, 50);
+  };
+
+  const discardSession = () => {
+    setSavedSession(null);
+    discardEditorSession().catch((err) => {
+      console.error("Failed to discard editor session:", err);
+    });
   };
 
   const createCropOverlay = useCallback((canvas: fabric.Canvas) => {
@@ -482,6 +1016,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     cropOverlayRef.current = new fabric.Group(overlayRects, {
       selectable: false,
       evented: false,
+      excludeFromExport: true,  // Tool UI, not a layer
     });
     
     canvas.add(cropOverlayRef.current);
@@ -534,6 +1069,8 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
         selectable: false,
         evented: false,  // Don't capture mouse events
       });
+      // Cropping flattens the annotations into a new frame
+      fabricImg.isBase = true;
       canvas.add(fabricImg);
       canvas.renderAll();
       
@@ -575,12 +1112,26 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
       saveHistory();
     };
 
+    // Moving, scaling or rotating an object (e.g. a pasted overlay)
+    const handleObjectModified = () => {
+      saveHistory();
+    };
+
+    // Name every new object so it can be told apart in the layers panel
+    const handleObjectAdded = ({ target }: { target: FabricObject }) => {
+      registerLayer(canvas, target);
+    };
+
     canvas.on("path:created", handlePathCreated);
+    canvas.on("object:modified", handleObjectModified);
+    canvas.on("object:added", handleObjectAdded);
 
     return () => {
       canvas.off("path:created", handlePathCreated);
+      canvas.off("object:modified", handleObjectModified);
+      canvas.off("object:added", handleObjectAdded);
     };
-  }, [saveHistory]);
+  }, [saveHistory, canvasInitialized]);
 
   // Load initial image if provided
   useEffect(() => {
@@ -598,6 +1149,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     
     // Mark this image as being loaded
     loadedImageRef.current = initialImage;
+    sourceMetadataRef.current = initialMetadata ?? null;
     
     // Show canvas first
     setHasCanvas(true);
@@ -613,12 +1165,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
       
       // Ensure canvas is created first if it doesn't exist
       if (!fabricCanvasRef.current) {
-        const canvas = new fabric.Canvas(canvasRef.current, {
-          width: ASPECT_RATIOS[0].width,
-          height: ASPECT_RATIOS[0].height,
-          backgroundColor: "white",
-          selection: false,
-        });
+        const canvas = createFabricCanvas(canvasRef.current, ASPECT_RATIOS[0].width, ASPECT_RATIOS[0].height);
         fabricCanvasRef.current = canvas;
         setCanvasInitialized(prev => prev + 1); // Trigger tool effect re-run
         
@@ -642,33 +1189,15 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
           selectable: false,
           evented: false,  // Don't capture mouse events
         });
+        fabricImg.isBase = true;
         
-        // Resize canvas to match image dimensions
-        const imageWidth = fabricImg.width!;
-        const imageHeight = fabricImg.height!;
-        
-        // Maintain a reasonable size - scale down if too large
-        let scale = 1;
-        const maxHeight = 720;
-        if (imageHeight > maxHeight) {
-          scale = maxHeight / imageHeight;
-        }
-        
-        // Use ceil to ensure no gaps and add 1px buffer for edge rendering
-        const newWidth = Math.ceil(imageWidth * scale) + 1;
-        const newHeight = Math.ceil(imageHeight * scale) + 1;
-        
-        // Update canvas dimensions
+        // Keep the frame at its native resolution so nothing is lost on
+        // export; the view scales it down to fit
         canvas.setDimensions({
-          width: newWidth,
-          height: newHeight
+          width: fabricImg.width,
+          height: fabricImg.height
         });
         
-        // Calculate exact scale to fill canvas width
-        const exactScale = newWidth / imageWidth;
-        
-        // Scale and position image to fill canvas exactly
-        fabricImg.scale(exactScale);
         fabricImg.set({
           left: 0,
           top: 0,
@@ -702,7 +1231,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     
     // Start loading after a short delay
     setTimeout(loadImage, 200);
-  }, [initialImage, saveHistory, updateCanvasScale, setHasCanvas]);
+  }, [initialImage, initialMetadata, saveHistory, updateCanvasScale, setHasCanvas]);
 
 
 
@@ -715,6 +1244,8 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     canvas.isDrawingMode = false;
     canvas.selection = false; // Disable selection by default
     canvas.discardActiveObject(); // Clear any selection
+    canvas.off("before:path:created");
+    canvas.off("mouse:down:before");
     canvas.off("mouse:down");
     canvas.off("mouse:move");
     canvas.off("mouse:up");
@@ -725,6 +1256,13 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     canvas.renderAll(); // Apply cursor changes
 
     switch (selectedTool) {
+      case "select":
+        // Marquee and Shift-click multi-select are Fabric's own
+        canvas.selection = true;
+        canvas.hoverCursor = 'move';
+        resetInteractivity(canvas);
+        break;
+
       case "draw":
         canvas.isDrawingMode = true;
         canvas.defaultCursor = 'crosshair';
@@ -733,13 +1271,21 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
           const brush = new fabric.PencilBrush(canvas);
           canvas.freeDrawingBrush = brush;
         }
-        canvas.freeDrawingBrush.color = selectedColor;
-        canvas.freeDrawingBrush.width = 5;
+        updateBrush(canvas, styleRef.current.color, styleRef.current.style);
+        // The document can be replaced while the tool stays selected
+        canvas.on("mouse:down:before", () => {
+          updateBrush(canvas, styleRef.current.color, styleRef.current.style);
+        });
+        // The brush draws opaque; the finished path takes the opacity
+        canvas.on("before:path:created", ({ path }) => {
+          path.set({ opacity: styleRef.current.style.opacity });
+        });
         break;
 
       case "rectangle":
       case "circle":
       case "line":
+      case "arrow":
         canvas.selection = false;
         canvas.defaultCursor = 'crosshair';
         canvas.hoverCursor = 'crosshair';
@@ -751,6 +1297,7 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
           const pointer = canvas.getPointer(opt.e);
           startX = pointer.x;
           startY = pointer.y;
+          const { color, style } = styleRef.current;
 
           if (selectedTool === "rectangle") {
                             shape = new fabric.Rect({
@@ -758,9 +1305,8 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
               top: startY,
               width: 0,
               height: 0,
-              fill: "transparent",
-              stroke: selectedColor,
-              strokeWidth: 5,
+              fill: fillOf(style),
+              ...strokeProps(style, color, annotationScale(canvas)),
               selectable: false,
             });
           } else if (selectedTool === "circle") {
@@ -768,17 +1314,25 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
               left: startX,
               top: startY,
               radius: 0,
-              fill: "transparent",
-              stroke: selectedColor,
-              strokeWidth: 5,
+              fill: fillOf(style),
+              ...strokeProps(style, color, annotationScale(canvas)),
               selectable: false,
             });
           } else if (selectedTool === "line") {
                 shape = new fabric.Line([startX, startY, startX, startY], {
-              stroke: selectedColor,
-              strokeWidth: 5,
+              ...strokeProps(style, color, annotationScale(canvas)),
               selectable: false,
             });
+          } else if (selectedTool === "arrow") {
+            const props = strokeProps(style, color, annotationScale(canvas));
+            shape = new fabric.Path(arrowPath(pointer, pointer, arrowHead, props.strokeWidth), {
+              ...props,
+              fill: "",
+              strokeLineCap: "round",
+              strokeLineJoin: "round",
+              selectable: false,
+            });
+            shape.annotationType = "arrow";
           }
 
           if (shape) {
@@ -808,6 +1362,8 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
             });
           } else if (selectedTool === "line" && shape instanceof fabric.Line) {
             shape.set({ x2: pointer.x, y2: pointer.y });
+          } else if (selectedTool === "arrow" && shape instanceof fabric.Path) {
+            reshapePath(shape, arrowPath({ x: startX, y: startY }, pointer, arrowHead, shape.strokeWidth));
           }
 
           canvas.renderAll();
@@ -822,6 +1378,107 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
         });
         break;
 
+      case "callout": {
+        canvas.defaultCursor = 'crosshair';
+        canvas.hoverCursor = 'crosshair';
+        // Press where the tail should point, drag to place the bubble
+        let tip: { x: number; y: number } | null = null;
+        let bubble: fabric.Path | null = null;
+        const bubbleSize = () => ({ width: 200 * annotationScale(canvas), height: 90 * annotationScale(canvas) });
+
+        canvas.on("mouse:down", (opt) => {
+          const { color, style } = styleRef.current;
+          const { width, height } = bubbleSize();
+          tip = canvas.getPointer(opt.e);
+          // Until dragged, the bubble sits up and to the right of the tip
+          const center = { x: tip.x + width * 0.6, y: tip.y - height * 1.2 };
+          bubble = new fabric.Path(calloutPath(tip, center, width, height), {
+            ...strokeProps(style, color, annotationScale(canvas)),
+            fill: fillOf(style),
+            strokeLineJoin: "round",
+            selectable: false,
+          });
+          bubble.annotationType = "callout";
+          canvas.add(bubble);
+        });
+
+        canvas.on("mouse:move", (opt) => {
+          if (!tip || !bubble) return;
+          const { width, height } = bubbleSize();
+          reshapePath(bubble, calloutPath(tip, canvas.getPointer(opt.e), width, height));
+          canvas.renderAll();
+        });
+
+        canvas.on("mouse:up", () => {
+          if (!tip || !bubble) return;
+          const target = bubble;
+          tip = null;
+          bubble = null;
+
+          // Type the text straight into the bubble
+          const { width } = bubbleSize();
+          const center = target.getCenterPoint();
+          // The text tool's font, size and emphasis; the bubble is its box
+          const { font, fontSize, bold, italic, underline, lineHeight } = styleRef.current.text;
+          const text = new fabric.Textbox("", {
+            left: center.x,
+            top: center.y,
+            originX: "center",
+            originY: "center",
+            width: width * 0.85,
+            ...textProps({ font, fontSize, bold, italic, underline, lineHeight }, annotationScale(canvas)),
+            textAlign: "center",
+            fill: styleRef.current.color,
+            opacity: styleRef.current.style.opacity,
+            selectable: true,  // Temporarily selectable for editing
+            editable: true,
+          });
+          canvas.add(text);
+          canvas.setActiveObject(text);
+          text.enterEditing();
+          canvas.renderAll();
+          loadFont(canvas, text.fontFamily).catch((err) => {
+            console.error("Font load failed:", err);
+          });
+
+          text.on('editing:exited', () => {
+            if (text.text === "") {
+              canvas.remove(text);
+            } else {
+              text.set({
+                selectable: false,
+                editable: false,
+              });
+            }
+            canvas.discardActiveObject();
+            canvas.renderAll();
+            // Bubble and text go into history together
+            saveHistory();
+          });
+        });
+        break;
+      }
+
+      case "step":
+        canvas.defaultCursor = 'crosshair';
+        canvas.hoverCursor = 'crosshair';
+        canvas.on("mouse:down", (opt) => {
+          const { color, style } = styleRef.current;
+          const scale = annotationScale(canvas);
+          const marker = createStepMarker(
+            nextStepNumber(canvas),
+            canvas.getPointer(opt.e),
+            (10 + style.strokeWidth * 1.5) * scale,
+            color,
+            style.opacity
+          );
+          marker.set({ selectable: false });
+          canvas.add(marker);
+          canvas.renderAll();
+          saveHistory();
+        });
+        break;
+
       case "text":
         // Keep default cursor for text tool
         canvas.defaultCursor = 'text';
@@ -830,51 +1487,106 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
         canvas.forEachObject((obj) => {
           obj.set('selectable', false);
           // Only make non-background objects evented
-          if (!(obj instanceof fabric.Rect && obj.width === canvas.width && obj.height === canvas.height) &&
-              !(obj instanceof fabric.Image)) {
-            obj.set('evented', true);
-          } else {
-            obj.set('evented', false);  // Keep background objects non-evented
-          }
+          obj.set('evented', !isPinned(obj));
         });
         
-        canvas.on("mouse:down", (opt) => {
-          // Only create new text if clicking on empty space
-          if (opt.target) return;
-          
-          const pointer = canvas.getPointer(opt.e);
-          const text = new fabric.IText("", {
-            left: pointer.x,
-            top: pointer.y,
-            fontFamily: "Arial",
-            fontSize: 24,
-            fill: selectedColor,
+        // Type into a text object until it loses focus
+        const editText = (text: fabric.IText) => {
+          const original = text.text;
+          text.set({
             selectable: true,  // Temporarily selectable for editing
             editable: true,     // Allow editing
           });
-          
-          canvas.add(text);
           canvas.setActiveObject(text);
           text.enterEditing();
           canvas.renderAll();
           
           // When editing is done, make it non-selectable
-          text.on('editing:exited', () => {
+          text.once('editing:exited', () => {
             // Remove empty text
             if (text.text === "") {
               canvas.remove(text);
             } else {
-              text.set({
-                selectable: false,
-                editable: false,
-              });
-              saveHistory();
+              text.set('selectable', false);
             }
             canvas.discardActiveObject();
             canvas.renderAll();
+            if (text.text !== original) saveHistory();
+          });
+        };
+
+        canvas.on("mouse:down", (opt) => {
+          // Clicking existing text edits it again, with its own settings in
+          // the text bar
+          if (opt.target instanceof fabric.IText) {
+            if (!opt.target.isEditing) {
+              const style = textStyleOf(opt.target, annotationScale(canvas));
+              setTextStyle((prev) => ({ ...prev, ...style }));
+              editText(opt.target);
+            }
+            return;
+          }
+          // Only create new text if clicking on empty space
+          if (opt.target) return;
+          
+          const pointer = canvas.getPointer(opt.e);
+          const text = new LabelText("", {
+            left: pointer.x,
+            top: pointer.y,
+            ...textProps(styleRef.current.text, annotationScale(canvas)),
+            fill: styleRef.current.color,
+            opacity: styleRef.current.style.opacity,
           });
+          
+          canvas.add(text);
+          editText(text);
+          loadFont(canvas, text.fontFamily).catch((err) => {
+            console.error("Font load failed:", err);
+          });
+        });
+        break;
+
+      case "redact": {
+        canvas.defaultCursor = 'crosshair';
+        canvas.hoverCursor = 'crosshair';
+        // Drag out a rectangle, or trace round the region freehand
+        let points: { x: number; y: number }[] = [];
+        let region: Redaction | null = null;
+
+        canvas.on("mouse:down", (opt) => {
+          const pointer = canvas.getPointer(opt.e);
+          points = [pointer];
+          region = createRedaction(rectanglePath(pointer, pointer), styleRef.current.redaction, styleRef.current.color);
+          region.set({ selectable: false });
+          canvas.add(region);
+        });
+
+        canvas.on("mouse:move", (opt) => {
+          if (!region) return;
+          const pointer = canvas.getPointer(opt.e);
+          if (styleRef.current.redaction.shape === "freehand") {
+            points.push(pointer);
+            reshapePath(region, freehandPath(points));
+          } else {
+            reshapePath(region, rectanglePath(points[0], pointer));
+          }
+          canvas.renderAll();
+        });
+
+        canvas.on("mouse:up", () => {
+          if (!region) return;
+          // A click or a stroke without an area redacts nothing
+          if (region.width < 2 || region.height < 2) {
+            canvas.remove(region);
+          } else {
+            saveHistory();
+          }
+          region = null;
+          points = [];
+          canvas.renderAll();
         });
         break;
+      }
 
       case "crop":
         canvas.isDrawingMode = false;
@@ -928,10 +1640,11 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
             height: 0,
             fill: 'transparent',
             stroke: '#fff',
-            strokeWidth: 2,
-            strokeDashArray: [5, 5],
+            strokeWidth: 2 * annotationScale(canvas),
+            strokeDashArray: [5 * annotationScale(canvas), 5 * annotationScale(canvas)],
             selectable: false,
             evented: false,
+            excludeFromExport: true,  // Tool UI, not a layer
           });
           canvas.add(cropRectRef.current);
         });
@@ -986,9 +1699,14 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     // Force render to apply all changes
     canvas.renderAll();
     
-    // Clean up when switching tools
+    // Clean up when switching tools. Only the tool's own handlers go, the
+    // history and layer listeners stay attached.
     return () => {
-      canvas.off();
+      canvas.off("before:path:created");
+      canvas.off("mouse:down:before");
+      canvas.off("mouse:down");
+      canvas.off("mouse:move");
+      canvas.off("mouse:up");
       
       // Clean up crop UI elements if leaving crop tool
       if (selectedTool === "crop") {
@@ -1004,28 +1722,51 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
       }
       
       // Restore event handling on interactive objects only
-      canvas.forEachObject((obj) => {
-        obj.set('selectable', false);  // Keep non-selectable
-        // Only restore events for non-background objects
-        if (!(obj instanceof fabric.Rect && obj.width === canvas.width && obj.height === canvas.height) &&
-            !(obj instanceof fabric.Image)) {
-          obj.set('evented', true);
-        }
-      });
+      canvas.selection = false;
+      resetInteractivity(canvas);
       
       canvas.renderAll();
     };
-  }, [selectedTool, selectedColor, saveHistory, createCropOverlay, cropAspectRatio, canvasInitialized]);
+  }, [selectedTool, arrowHead, saveHistory, createCropOverlay, cropAspectRatio, canvasInitialized]);
+
+  // Keep the layers panel in step with what is selected on the canvas
+  useEffect(() => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas || selectedTool !== "select") return;
+
+    const handleSelection = () => {
+      const active = canvas.getActiveObjects();
+      setSelectedLayerIds(active.map((obj) => obj.layerId ?? "").filter(Boolean));
+
+      // A single object shows its own settings in the style and text bars, so
+      // they toggle from what it has
+      if (active.length !== 1) return;
+      const [obj] = active;
+      const scale = annotationScale(canvas);
+      setAnnotationStyle((prev) => ({ ...prev, ...styleOf(obj, scale) }));
+      if (obj instanceof fabric.FabricText) setTextStyle((prev) => ({ ...prev, ...textStyleOf(obj, scale) }));
+    };
+
+    canvas.on("selection:created", handleSelection);
+    canvas.on("selection:updated", handleSelection);
+    canvas.on("selection:cleared", handleSelection);
+    return () => {
+      canvas.off("selection:created", handleSelection);
+      canvas.off("selection:updated", handleSelection);
+      canvas.off("selection:cleared", handleSelection);
+    };
+  }, [selectedTool, canvasInitialized]);
 
-  // Update brush color when color changes
+  // Update the brush and the tools when the color or style changes
   useEffect(() => {
+    styleRef.current = { color: selectedColor, style: annotationStyle, text: textStyle, redaction };
     if (!fabricCanvasRef.current) return;
     const canvas = fabricCanvasRef.current;
     
-    if (canvas.isDrawingMode && canvas.freeDrawingBrush) {
-      canvas.freeDrawingBrush.color = selectedColor;
+    if (canvas.isDrawingMode) {
+      updateBrush(canvas, selectedColor, annotationStyle);
     }
-  }, [selectedColor, selectedTool]);
+  }, [selectedColor, annotationStyle, textStyle, redaction, selectedTool]);
   
   // Clear crop selection when aspect ratio changes
   useEffect(() => {
@@ -1045,6 +1786,199 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
     canvas.renderAll();
   }, [cropAspectRatio, selectedTool]);
 
+  // Estimate the export size whenever the document or output format changes.
+  // Large documents are encoded at a reduced size and the result scaled up by
+  // the pixel count, so a stroke on a 4K frame doesn't cost a 4K encode.
+  const currentState = historyRef.current[historyIndexRef.current];
+  useEffect(() => {
+    if (!fabricCanvasRef.current || !currentState) return;
+
+    let cancelled = false;
+    setExportSize(null);
+    const timer = setTimeout(() => {
+      const canvas = fabricCanvasRef.current;
+      if (!canvas) return;
+      const exportPixels = canvas.width * canvas.height * exportScale * exportScale;
+      const sampleScale = Math.min(exportScale, exportScale * Math.sqrt(ESTIMATE_PIXELS / exportPixels));
+      const ratio = (exportScale / sampleScale) ** 2;
+      encodeCanvas(canvas.toCanvasElement(sampleScale), exportSettings, sourceMetadataRef.current)
+        .then((blob) => {
+          if (!cancelled) setExportSize(Math.round(blob.size * ratio));
+        })
+        .catch(() => {});
+    }, 800);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentState, exportSettings, exportScale]);
+
+  // Look for a document autosaved on an earlier visit
+  useEffect(() => {
+    loadEditorSession()
+      .then((session) => {
+        if (session) setSavedSession(session);
+      })
+      .catch((err) => {
+        console.error("Failed to load editor session:", err);
+      })
+      .finally(() => {
+        setSessionChecked(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    onRestoreAvailableChange?.(!!savedSession);
+  }, [savedSession, onRestoreAvailableChange]);
+
+  // Autosave the document shortly after each change, undo and redo included.
+  // While earlier edits wait to be restored or discarded they are left alone;
+  // the current document is saved as soon as the user has chosen.
+  const historyIndex = historyIndexRef.current;
+  useEffect(() => {
+    if (!currentState || !sessionChecked || savedSession) return;
+
+    const timer = setTimeout(() => {
+      saveEditorSession({
+        history: historyRef.current,
+        historyIndex: historyIndexRef.current,
+        images: imagesRef.current,
+        metadata: sourceMetadataRef.current,
+      }).catch((err) => {
+        console.error("Autosave failed:", err);
+      });
+    }, AUTOSAVE_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [currentState, historyIndex, sessionChecked, savedSession]);
+
+  // Show a new or resized (e.g. cropped) document whole
+  const documentSize = fabricCanvasRef.current
+    ? `${fabricCanvasRef.current.width}x${fabricCanvasRef.current.height}`
+    : null;
+  useEffect(() => {
+    setView(FIT_VIEW);
+  }, [documentSize]);
+
+  // Mouse wheel and trackpad pinch (reported as Ctrl+wheel) zoom around the cursor
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015));
+      zoomAt((current) => current * factor, { x: e.clientX, y: e.clientY });
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => {
+      container.removeEventListener("wheel", handleWheel);
+    };
+  }, [zoomAt, hasCanvas]);
+
+  // Hold Space to pan with the left mouse button
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "Space") setSpaceHeld(false);
+    };
+    const handleBlur = () => setSpaceHeld(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, [isActive]);
+
+  // Only needed once part of the document is out of view
+  const region =
+    containerRef.current && fabricCanvasRef.current
+      ? visibleRegion(containerRef.current, fabricCanvasRef.current, view, viewScale)
+      : null;
+  const showMinimap =
+    !!region &&
+    !!fabricCanvasRef.current &&
+    (region.left > 0 ||
+      region.top > 0 ||
+      region.left + region.width < fabricCanvasRef.current.width ||
+      region.top + region.height < fabricCanvasRef.current.height);
+
+  // Redraw the minimap whenever the document or the view changes
+  useEffect(() => {
+    const minimap = minimapRef.current;
+    const canvas = fabricCanvasRef.current;
+    const container = containerRef.current;
+    if (!showMinimap || !minimap || !canvas || !container) return;
+
+    const scale = MINIMAP_SIZE / Math.max(canvas.width, canvas.height);
+    minimap.width = Math.max(1, Math.round(canvas.width * scale));
+    minimap.height = Math.max(1, Math.round(canvas.height * scale));
+    const ctx = minimap.getContext("2d");
+    if (!ctx) return;
+    ctx.drawImage(canvas.lowerCanvasEl, 0, 0, minimap.width, minimap.height);
+
+    const visible = visibleRegion(container, canvas, view, view.zoom ?? canvasScale);
+    ctx.strokeStyle = "#3b82f6";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(visible.left * scale, visible.top * scale, visible.width * scale, visible.height * scale);
+  }, [showMinimap, view, canvasScale, currentState]);
+
+  // Clicking or dragging on the minimap centres the view there
+  const panToMinimapPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const docX = ((e.clientX - rect.left) / rect.width) * canvas.width;
+    const docY = ((e.clientY - rect.top) / rect.height) * canvas.height;
+    setView((prev) => {
+      const zoom = prev.zoom ?? canvasScale;
+      return { zoom, x: -(docX - canvas.width / 2) * zoom, y: -(docY - canvas.height / 2) * zoom };
+    });
+  };
+
+  // Middle button, or left button with Space held, pans the view. These run
+  // in the capture phase so the drawing tools never see the drag.
+  const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 1 && !(e.button === 0 && spaceHeld)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStartRef.current = { x: e.clientX, y: e.clientY, viewX: view.x, viewY: view.y };
+    setIsPanning(true);
+  };
+
+  const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = panStartRef.current;
+    if (!start) return;
+    e.stopPropagation();
+    setView((prev) => ({
+      zoom: prev.zoom ?? canvasScale,
+      x: start.viewX + e.clientX - start.x,
+      y: start.viewY + e.clientY - start.y,
+    }));
+  };
+
+  const handlePanEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!panStartRef.current) return;
+    e.stopPropagation();
+    panStartRef.current = null;
+    setIsPanning(false);
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     if (!fabricCanvasRef.current) return;
@@ -1059,14 +1993,56 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
         }
       }
 
+      // Editing the selection with the select tool
+      if (!isActive || selectedTool !== "select" || isTypingTarget(e.target)) return;
+      if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        deleteSelection();
+      } else if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "d") {
+        e.preventDefault();
+        duplicateSelection();
+      }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [undo, redo, saveHistory]);
+  }, [undo, redo, saveHistory, isActive, selectedTool, deleteSelection, duplicateSelection]);
   
+  // Ctrl/Cmd+V pastes an image as a new frame, or asks how to use it when a
+  // frame is already open. Text being typed into a field is left alone.
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement)) {
+        return;
+      }
+      const image = pastedFiles(e).find((file) => file.type.startsWith("image/"));
+      if (!image) return;
+      e.preventDefault();
+
+      readAsDataUrl(image)
+        .then((url) => {
+          if (fabricCanvasRef.current && hasCanvas) {
+            setPastedImage(url);
+          } else {
+            importImage(url);
+          }
+        })
+        .catch((err) => {
+          console.error("Failed to read pasted image:", err);
+        });
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => {
+      window.removeEventListener("paste", handlePaste);
+    };
+  }, [isActive, hasCanvas, importImage]);
+
   // Clean up canvas on component unmount
   useEffect(() => {
     return () => {
@@ -1094,6 +2070,28 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
 
   return (
     <div className="space-y-4">
+      {/* Restore Autosaved Session */}
+      {savedSession && (
+        <div className="border border-blue-500/40 bg-blue-50 dark:bg-blue-950/20 rounded-lg p-4 flex flex-wrap gap-2 items-center">
+          <span className="text-sm flex-1">
+            You have unsaved edits from {new Date(savedSession.savedAt).toLocaleString()}.
+            {hasCanvas && " Restoring replaces the current document, which isn't autosaved until you choose."}
+          </span>
+          <button
+            onClick={restoreSession}
+            className="px-3 py-1.5 bg-blue-500 text-white rounded hover:bg-blue-600"
+          >
+            Restore
+          </button>
+          <button
+            onClick={discardSession}
+            className="px-3 py-1.5 border rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Discard
+          </button>
+        </div>
+      )}
+
       {/* Frame Actions */}
       <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4">
         <div className="flex gap-2">
@@ -1126,6 +2124,19 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
           {/* Tool Buttons */}
           <div className="flex gap-2">
 
+            <button
+              onClick={() => setSelectedTool("select")}
+              className={`p-2 rounded ${
+                selectedTool === "select"
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 dark:bg-gray-700"
+              }`}
+              title="Select and move"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M4 3l7 17 2.5-7.5L21 10 4 3z"/>
+              </svg>
+            </button>
             <button
               onClick={() => setSelectedTool("draw")}
               className={`p-2 rounded ${
@@ -1172,6 +2183,39 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
             >
               /
             </button>
+            <button
+              onClick={() => setSelectedTool("arrow")}
+              className={`p-2 rounded ${
+                selectedTool === "arrow"
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 dark:bg-gray-700"
+              }`}
+              title="Arrow"
+            >
+              ➔
+            </button>
+            <button
+              onClick={() => setSelectedTool("callout")}
+              className={`p-2 rounded ${
+                selectedTool === "callout"
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 dark:bg-gray-700"
+              }`}
+              title="Callout: press where it points, drag to place the bubble"
+            >
+              💬
+            </button>
+            <button
+              onClick={() => setSelectedTool("step")}
+              className={`p-2 rounded ${
+                selectedTool === "step"
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 dark:bg-gray-700"
+              }`}
+              title="Numbered step"
+            >
+              ①
+            </button>
             <button
               onClick={() => setSelectedTool("text")}
               className={`p-2 rounded ${
@@ -1183,6 +2227,17 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
             >
               T
             </button>
+            <button
+              onClick={() => setSelectedTool("redact")}
+              className={`p-2 rounded ${
+                selectedTool === "redact"
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 dark:bg-gray-700"
+              }`}
+              title="Redact: blur, pixelate or fill a region"
+            >
+              ▒
+            </button>
             <button
               onClick={() => setSelectedTool("crop")}
               className={`p-2 rounded ${
@@ -1205,11 +2260,78 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
             <input
               type="color"
               value={selectedColor}
-              onChange={(e) => setSelectedColor(e.target.value)}
+              onChange={(e) => changeStyle({ color: e.target.value }, false)}
+              onBlur={commitStyle}
               className="w-8 h-8 border rounded cursor-pointer"
             />
           </div>
 
+          {/* Arrow Head Selector (only show when arrow tool is selected) */}
+          {selectedTool === "arrow" && (
+            <div className="flex gap-2 items-center">
+              <span className="text-sm">Heads:</span>
+              <select
+                value={arrowHead}
+                onChange={(e) => setArrowHead(e.target.value as ArrowHead)}
+                className="px-2 py-1 border rounded"
+              >
+                {ARROW_HEADS.map((head) => (
+                  <option key={head.id} value={head.id}>
+                    {head.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Stroke, fill and opacity */}
+          {selectedTool !== "crop" && selectedTool !== "redact" && (
+            <StyleBar style={annotationStyle} onChange={changeStyle} onCommit={commitStyle} />
+          )}
+
+          {/* Redaction (with the redact tool or a redaction selected) */}
+          {(selectedTool === "redact" || (selectedTool === "select" && selectedRedactions().length > 0)) && (
+            <RedactionBar settings={redaction} onChange={changeRedaction} onCommit={commitStyle} />
+          )}
+
+          {/* Font and text box (with the text tool or text selected) */}
+          {(selectedTool === "text" || (selectedTool === "select" && selectedTexts().length > 0)) && (
+            <TextBar style={textStyle} onChange={changeTextStyle} onCommit={commitStyle} />
+          )}
+
+          {/* Arrange (only with several objects selected) */}
+          {selectedTool === "select" && selectedLayerIds.length > 1 && (
+            <div className="flex gap-1 items-center">
+              <span className="text-sm mr-1">Arrange:</span>
+              {ALIGNMENTS.map((alignment) => (
+                <button
+                  key={alignment.id}
+                  onClick={() => arrangeSelection((objects) => alignObjects(objects, alignment.id))}
+                  className="w-8 h-8 rounded bg-gray-200 dark:bg-gray-700"
+                  title={alignment.label}
+                >
+                  {alignment.icon}
+                </button>
+              ))}
+              <button
+                onClick={() => arrangeSelection((objects) => distributeObjects(objects, "horizontal"))}
+                disabled={selectedLayerIds.length < 3}
+                className="px-2 h-8 text-sm rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                title="Equal horizontal spacing (3 or more objects)"
+              >
+                Distribute ↔
+              </button>
+              <button
+                onClick={() => arrangeSelection((objects) => distributeObjects(objects, "vertical"))}
+                disabled={selectedLayerIds.length < 3}
+                className="px-2 h-8 text-sm rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                title="Equal vertical spacing (3 or more objects)"
+              >
+                Distribute ↕
+              </button>
+            </div>
+          )}
+
           {/* Crop Aspect Ratio Selector (only show when crop tool is selected) */}
           {selectedTool === "crop" && (
             <div className="flex gap-2 items-center">
@@ -1262,13 +2384,45 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
           </div>
 
           {/* Clear & Download */}
-          <div className="flex gap-2 ml-auto">
+          <div className="flex flex-wrap gap-2 items-center ml-auto">
+            <ExportOptions
+              settings={exportSettings}
+              onChange={setExportSettings}
+              estimatedSize={exportSize}
+            />
+            <label className="flex gap-2 items-center text-sm">
+              Scale:
+              <select
+                value={exportScale}
+                onChange={(e) => setExportScale(Number(e.target.value))}
+                className="px-2 py-1 border rounded"
+              >
+                {EXPORT_SCALES.map((scale) => (
+                  <option key={scale} value={scale}>
+                    {scale}x
+                  </option>
+                ))}
+              </select>
+              {fabricCanvasRef.current && (
+                <span className="opacity-60">
+                  {Math.round(fabricCanvasRef.current.width * exportScale)} ×{" "}
+                  {Math.round(fabricCanvasRef.current.height * exportScale)}
+                </span>
+              )}
+            </label>
             <button
               onClick={clearCanvas}
               className="px-3 py-1 rounded bg-red-500 text-white hover:bg-red-600"
             >
               Reset
             </button>
+            <button
+              onClick={copyCanvas}
+              className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700"
+              title="Copy as PNG"
+            >
+              {copied ? "Copied!" : "Copy"}
+            </button>
             <button
               onClick={downloadCanvas}
               className="px-3 py-1 rounded bg-green-500 text-white hover:bg-green-600"
@@ -1282,20 +2436,159 @@ export default function FrameEditor({ initialImage, onImageImport }: FrameEditor
 
       {/* Canvas Container */}
       {hasCanvas && (
-        <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 bg-gray-100 dark:bg-gray-900">
-          <div 
-            ref={containerRef}
-            className="relative w-full flex items-center justify-center overflow-hidden"
-            style={{ minHeight: '400px', maxHeight: 'calc(100vh - 400px)' }}
-          >
+        <div className="flex flex-col lg:flex-row gap-4 items-start">
+          <div className="flex-1 min-w-0 w-full border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 bg-gray-100 dark:bg-gray-900 space-y-2">
+            {/* Zoom Controls */}
+            <div className="flex flex-wrap gap-2 items-center text-sm">
+              <button
+                onClick={() => zoomAt((current) => current / 1.25)}
+                className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700"
+                title="Zoom out"
+              >
+                −
+              </button>
+              <span className="w-14 text-center">{Math.round(viewScale * 100)}%</span>
+              <button
+                onClick={() => zoomAt((current) => current * 1.25)}
+                className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700"
+                title="Zoom in"
+              >
+                +
+              </button>
+              <button
+                onClick={() => setView(FIT_VIEW)}
+                className={`px-2 py-1 rounded ${
+                  view.zoom === null ? "bg-blue-500 text-white" : "bg-gray-200 dark:bg-gray-700"
+                }`}
+              >
+                Fit
+              </button>
+              {ZOOM_PRESETS.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => setView({ zoom: preset, x: 0, y: 0 })}
+                  className={`px-2 py-1 rounded ${
+                    view.zoom === preset ? "bg-blue-500 text-white" : "bg-gray-200 dark:bg-gray-700"
+                  }`}
+                >
+                  {preset * 100}%
+                </button>
+              ))}
+              <span className="opacity-60">Scroll to zoom · Space-drag or middle-drag to pan</span>
+            </div>
+
             <div 
-              className="relative"
+              ref={containerRef}
+              className="relative w-full flex items-center justify-center overflow-hidden"
               style={{
-                transform: `scale(${canvasScale})`,
-                transformOrigin: 'center',
+                minHeight: '400px',
+                maxHeight: 'calc(100vh - 400px)',
+                cursor: isPanning ? 'grabbing' : spaceHeld ? 'grab' : undefined,
+              }}
+              onPointerDownCapture={handlePanStart}
+              onPointerMoveCapture={handlePanMove}
+              onPointerUpCapture={handlePanEnd}
+              onPointerCancelCapture={handlePanEnd}
+              onMouseDownCapture={(e) => {
+                // Keep the compatibility mousedown of a pan away from Fabric
+                if (panStartRef.current || e.button === 1) {
+                  e.preventDefault();
+                  e.stopPropagation();
+                }
               }}
             >
-              <canvas ref={canvasRef} className="border border-gray-300 dark:border-gray-600" />
+              <div 
+                className="relative"
+                style={{
+                  transform: `translate(${view.x}px, ${view.y}px) scale(${viewScale})`,
+                  transformOrigin: 'center',
+                  // Let the container take the pointer while panning
+                  pointerEvents: spaceHeld || isPanning ? 'none' : undefined,
+                }}
+              >
+                <canvas
+                  ref={canvasRef}
+                  className="border border-gray-300 dark:border-gray-600"
+                  // Show the actual pixels when zoomed in for detail work
+                  style={{ imageRendering: viewScale > 1 ? 'pixelated' : 'auto' }}
+                />
+              </div>
+              {showMinimap && (
+                <canvas
+                  ref={minimapRef}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    panToMinimapPoint(e);
+                  }}
+                  onPointerMove={(e) => {
+                    if (e.buttons & 1) panToMinimapPoint(e);
+                  }}
+                  className="absolute bottom-2 right-2 rounded border border-gray-300 dark:border-gray-600 bg-white shadow cursor-pointer"
+                  title="Click or drag to move the view"
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Layers and adjustments */}
+          <div className="w-full lg:w-64 shrink-0 grid gap-4">
+            <LayersPanel
+              layers={fabricCanvasRef.current ? describeLayers(fabricCanvasRef.current) : []}
+              selectedIds={selectedLayerIds}
+              onSelect={selectLayer}
+              onRename={renameLayer}
+              onToggleVisible={toggleLayerVisible}
+              onToggleLock={toggleLayerLock}
+              onDelete={deleteLayer}
+              onMove={moveLayer}
+              onGroup={groupLayers}
+              onUngroup={ungroupLayer}
+            />
+            <AdjustmentsPanel
+              adjustments={baseImage()?.imageAdjustments ?? DEFAULT_ADJUSTMENTS}
+              onChange={changeAdjustments}
+              onCommit={commitStyle}
+              onReset={resetAdjustments}
+              disabled={!baseImage()}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Paste Dialog */}
+      {pastedImage && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg">
+            <h3 className="text-lg font-semibold mb-4">Paste Image</h3>
+            <div className="space-y-4">
+              <img src={pastedImage} alt="Pasted image" className="max-w-xs max-h-48 object-contain mx-auto rounded" />
+              <div className="flex gap-2 justify-end">
+                <button
+                  onClick={() => setPastedImage(null)}
+                  className="px-4 py-2 border rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    importImage(pastedImage);
+                    setPastedImage(null);
+                  }}
+                  className="px-4 py-2 border rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  As New Frame
+                </button>
+                <button
+                  onClick={() => {
+                    addImageOverlay(pastedImage);
+                    setPastedImage(null);
+                  }}
+                  className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                >
+                  As Overlay
+                </button>
+              </div>
             </div>
           </div>
         </div>
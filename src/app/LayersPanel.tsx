@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import type { LayerInfo } from "./layers";
+
+interface LayersPanelProps {
+  // Top-most layer first
+  layers: LayerInfo[];
+  selectedIds: string[];
+  onSelect: (id: string, additive: boolean) => void;
+  onRename: (id: string, name: string) => void;
+  onToggleVisible: (id: string) => void;
+  onToggleLock: (id: string) => void;
+  onDelete: (id: string) => void;
+  // Put the dragged layer where the target layer is
+  onMove: (id: string, targetId: string) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+}
+
+export default function LayersPanel({
+  layers,
+  selectedIds,
+  onSelect,
+  onRename,
+  onToggleVisible,
+  onToggleLock,
+  onDelete,
+  onMove,
+  onGroup,
+  onUngroup,
+}: LayersPanelProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const selected = layers.filter((layer) => selectedIds.includes(layer.id));
+  const canGroup = selected.length > 1 && selected.every((layer) => layer.groupable);
+  const hasRedaction = selected.some((layer) => !layer.isBase && !layer.groupable);
+  const canUngroup = selected.length === 1 && selected[0].isGroup;
+
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-3 grid gap-2 content-start">
+      <div className="flex items-center gap-2">
+        <div className="font-medium text-sm flex-1">Layers</div>
+        <button
+          onClick={onGroup}
+          disabled={!canGroup}
+          className="px-2 py-0.5 text-sm rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+          title={hasRedaction ? "Redactions can't be grouped" : "Group selected layers"}
+        >
+          Group
+        </button>
+        <button
+          onClick={onUngroup}
+          disabled={!canUngroup}
+          className="px-2 py-0.5 text-sm rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+          title="Ungroup"
+        >
+          Ungroup
+        </button>
+      </div>
+
+      <ul className="grid gap-0.5 max-h-96 overflow-y-auto">
+        {layers.map((layer) => (
+          <li
+            key={layer.id}
+            draggable={!layer.isBase}
+            onDragStart={(e) => {
+              setDraggedId(layer.id);
+              e.dataTransfer.effectAllowed = "move";
+            }}
+            onDragOver={(e) => {
+              if (!draggedId || layer.isBase) return;
+              e.preventDefault();
+              setDropTargetId(layer.id);
+            }}
+            onDragLeave={() => setDropTargetId((prev) => (prev === layer.id ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (draggedId && draggedId !== layer.id) onMove(draggedId, layer.id);
+              setDraggedId(null);
+              setDropTargetId(null);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropTargetId(null);
+            }}
+            onClick={(e) => onSelect(layer.id, e.shiftKey || e.metaKey || e.ctrlKey)}
+            className={`flex items-center gap-1 rounded px-1 py-0.5 text-sm ${
+              selectedIds.includes(layer.id)
+                ? "bg-blue-500/20"
+                : "hover:bg-black/[.04] dark:hover:bg-white/[.04]"
+            } ${dropTargetId === layer.id ? "ring-1 ring-blue-500" : ""} ${
+              layer.isBase ? "" : "cursor-grab"
+            } ${layer.visible ? "" : "opacity-50"}`}
+          >
+            <span className="w-5 text-center shrink-0" aria-hidden>
+              {layer.icon}
+            </span>
+            <input
+              // Remount when the name changes elsewhere, e.g. on undo
+              key={layer.name}
+              type="text"
+              defaultValue={layer.name}
+              disabled={layer.isBase}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== layer.name) onRename(layer.id, name);
+                else e.target.value = layer.name;
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+              className="flex-1 min-w-0 px-1 bg-transparent rounded focus:bg-white dark:focus:bg-gray-800"
+              aria-label="Layer name"
+            />
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleVisible(layer.id);
+              }}
+              className="w-6 shrink-0 rounded hover:bg-black/[.08] dark:hover:bg-white/[.08]"
+              title={layer.visible ? "Hide" : "Show"}
+            >
+              {layer.visible ? "👁" : "–"}
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleLock(layer.id);
+              }}
+              disabled={layer.isBase}
+              className="w-6 shrink-0 rounded hover:bg-black/[.08] dark:hover:bg-white/[.08] disabled:hover:bg-transparent"
+              title={layer.isBase ? "The frame is always locked" : layer.locked ? "Unlock" : "Lock"}
+            >
+              {layer.locked || layer.isBase ? "🔒" : "🔓"}
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(layer.id);
+              }}
+              disabled={layer.isBase}
+              className="w-6 shrink-0 rounded opacity-60 hover:opacity-100 hover:bg-black/[.08] dark:hover:bg-white/[.08] disabled:invisible"
+              title="Delete layer"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { baseName, downloadBlob } from "./downloads";
+import {
+  createMarker,
+  loadMarkers,
+  markersToCsv,
+  markersToJson,
+  parseMarkers,
+  saveMarkers,
+  sortMarkers,
+  videoFingerprint,
+} from "./markers";
+import type { Marker } from "./markers";
+import { formatTimecode } from "./timecode";
+import { timeToFrame } from "./videoFrames";
+
+interface MarkerPanelProps {
+  videoFile: File;
+  fps: number;
+  position: number;
+  startTimecode: string;
+  onSeek: (time: number) => void;
+  onExtractAll: (times: number[]) => Promise<void>;
+  // Reports the markers whenever they change, for drawing them on the timeline
+  onMarkersChange?: (markers: Marker[]) => void;
+}
+
+export default function MarkerPanel({
+  videoFile,
+  fps,
+  position,
+  startTimecode,
+  onSeek,
+  onExtractAll,
+  onMarkersChange,
+}: MarkerPanelProps) {
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  // Set once the stored markers are loaded; nothing is saved before that
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [newMarkerId, setNewMarkerId] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFingerprint(null);
+    setMarkers([]);
+    videoFingerprint(videoFile)
+      .then(async (key) => {
+        const stored = await loadMarkers(key);
+        if (cancelled) return;
+        setMarkers(sortMarkers(stored));
+        setFingerprint(key);
+      })
+      .catch((err) => {
+        console.error("Loading markers failed:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoFile]);
+
+  useEffect(() => {
+    if (!fingerprint) return;
+    saveMarkers(fingerprint, markers).catch((err) => {
+      console.error("Saving markers failed:", err);
+    });
+  }, [fingerprint, markers]);
+
+  useEffect(() => {
+    onMarkersChange?.(markers);
+  }, [markers, onMarkersChange]);
+
+  const currentFrame = timeToFrame(position, fps);
+  const previous = [...markers].reverse().find((m) => timeToFrame(m.time, fps) < currentFrame);
+  const next = markers.find((m) => timeToFrame(m.time, fps) > currentFrame);
+  const atCurrent = markers.find((m) => timeToFrame(m.time, fps) === currentFrame);
+
+  const addMarker = () => {
+    // One marker per frame; adding again just focuses the existing one
+    if (atCurrent) {
+      setNewMarkerId(atCurrent.id);
+      return;
+    }
+    const marker = createMarker(position);
+    setMarkers((prev) => sortMarkers([...prev, marker]));
+    setNewMarkerId(marker.id);
+  };
+
+  const updateMarker = (id: string, changes: Partial<Pick<Marker, "label" | "note">>) => {
+    setMarkers((prev) => prev.map((m) => (m.id === id ? { ...m, ...changes } : m)));
+  };
+
+  const removeMarker = (id: string) => {
+    setMarkers((prev) => prev.filter((m) => m.id !== id));
+  };
+
+  const extractAll = async () => {
+    setIsExtracting(true);
+    try {
+      await onExtractAll(markers.map((m) => m.time));
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const exportMarkers = (kind: "json" | "csv") => {
+    const name = `${baseName(videoFile.name)}_markers.${kind}`;
+    if (kind === "json") {
+      const json = markersToJson(markers, videoFile.name, fps, startTimecode);
+      downloadBlob(new Blob([json], { type: "application/json" }), name);
+    } else {
+      downloadBlob(new Blob([markersToCsv(markers, fps, startTimecode)], { type: "text/csv" }), name);
+    }
+  };
+
+  const importMarkers = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parseMarkers(await file.text(), fps, startTimecode);
+      setMarkers((prev) => {
+        // Keep existing markers where both have one on the same frame
+        const taken = new Set(prev.map((m) => timeToFrame(m.time, fps)));
+        const added = imported.filter((m) => {
+          const frame = timeToFrame(m.time, fps);
+          if (taken.has(frame)) return false;
+          taken.add(frame);
+          return true;
+        });
+        return sortMarkers([...prev, ...added]);
+      });
+    } catch (err) {
+      console.error("Marker import failed:", err);
+      alert("Failed to import markers. Please choose a JSON or CSV marker file.");
+    }
+  };
+
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 grid gap-3">
+      <div className="font-medium">Markers</div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <button
+          onClick={addMarker}
+          disabled={!fingerprint}
+          className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+        >
+          Add marker
+        </button>
+        <div className="flex gap-1">
+          <button
+            onClick={() => previous && onSeek(previous.time)}
+            disabled={!previous}
+            className="px-3 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+            title="Previous marker"
+          >
+            ◀ Prev
+          </button>
+          <button
+            onClick={() => next && onSeek(next.time)}
+            disabled={!next}
+            className="px-3 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+            title="Next marker"
+          >
+            Next ▶
+          </button>
+        </div>
+        {markers.length > 0 && (
+          <button
+            onClick={extractAll}
+            disabled={isExtracting}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+          >
+            {isExtracting ? "Extracting…" : `Extract ${markers.length} marked frame${markers.length === 1 ? "" : "s"}`}
+          </button>
+        )}
+      </div>
+
+      {markers.length > 0 && (
+        <ul className="grid gap-1">
+          {markers.map((marker) => (
+            <li
+              key={marker.id}
+              className={`flex flex-wrap gap-2 items-center rounded p-1 text-sm ${
+                marker === atCurrent ? "bg-black/[.08] dark:bg-white/[.08]" : ""
+              }`}
+            >
+              <button
+                onClick={() => onSeek(marker.time)}
+                className="font-mono px-2 py-1 rounded hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+                title="Jump to this marker"
+              >
+                {formatTimecode(marker.time, fps, startTimecode)}
+              </button>
+              <input
+                type="text"
+                value={marker.label}
+                onChange={(e) => updateMarker(marker.id, { label: e.target.value })}
+                autoFocus={marker.id === newMarkerId}
+                placeholder="Label"
+                className="w-40 px-2 py-1 border rounded"
+              />
+              <input
+                type="text"
+                value={marker.note}
+                onChange={(e) => updateMarker(marker.id, { note: e.target.value })}
+                placeholder="Note"
+                className="flex-1 min-w-40 px-2 py-1 border rounded"
+              />
+              <button
+                onClick={() => removeMarker(marker.id)}
+                className="px-2 h-7 rounded opacity-60 hover:opacity-100 hover:bg-black/[.08] dark:hover:bg-white/[.08]"
+                title="Remove marker"
+                aria-label={`Remove marker at ${formatTimecode(marker.time, fps, startTimecode)}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-3 items-center text-sm">
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={importMarkers}
+          className="hidden"
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={!fingerprint}
+          className="px-3 h-8 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+        >
+          Import…
+        </button>
+        <button
+          onClick={() => exportMarkers("json")}
+          disabled={markers.length === 0}
+          className="px-3 h-8 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => exportMarkers("csv")}
+          disabled={markers.length === 0}
+          className="px-3 h-8 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+        >
+          Export CSV
+        </button>
+        <span className="opacity-60">Saved in this browser for this video file</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { REDACT_MODES, REDACT_SHAPES } from "./redaction";
+import type { RedactMode, RedactShape, RedactionSettings } from "./redaction";
+
+interface RedactionBarProps {
+  settings: RedactionSettings;
+  // commit is false while the strength slider is being dragged; onCommit follows on release
+  onChange: (change: Partial<RedactionSettings>, commit: boolean) => void;
+  onCommit: () => void;
+}
+
+export default function RedactionBar({ settings, onChange, onCommit }: RedactionBarProps) {
+  return (
+    <div className="flex flex-wrap gap-4 items-center text-sm">
+      <label className="flex gap-2 items-center">
+        Redact:
+        <select
+          value={settings.mode}
+          onChange={(e) => onChange({ mode: e.target.value as RedactMode }, true)}
+          className="px-2 py-1 border rounded"
+        >
+          {REDACT_MODES.map((mode) => (
+            <option key={mode.id} value={mode.id}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex gap-2 items-center">
+        Region:
+        <select
+          value={settings.shape}
+          onChange={(e) => onChange({ shape: e.target.value as RedactShape }, true)}
+          className="px-2 py-1 border rounded"
+        >
+          {REDACT_SHAPES.map((shape) => (
+            <option key={shape.id} value={shape.id}>
+              {shape.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={`flex gap-2 items-center ${settings.mode === "fill" ? "opacity-50" : ""}`}>
+        Strength:
+        <input
+          type="range"
+          min={6}
+          max={60}
+          step={1}
+          value={settings.strength}
+          disabled={settings.mode === "fill"}
+          onChange={(e) => onChange({ strength: Number(e.target.value) }, false)}
+          onPointerUp={onCommit}
+          onKeyUp={onCommit}
+        />
+        <span className="w-6">{settings.strength}</span>
+      </label>
+      {settings.mode === "fill" && <span className="opacity-60">Fills with the current color</span>}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { colorHistogram, downsample, histogramDistance, pixelDifference } from "./imageAnalysis";
+import { frameToTime, loadVideo, releaseVideo, seekVideo, timeToFrame, videoThumbnail } from "./videoFrames";
+
+interface SceneDetectorProps {
+  videoUrl: string;
+  duration: number;
+  fps: number;
+  onSeek: (time: number) => void;
+  onExtractAll: (times: number[]) => Promise<void>;
+  // Reports the cut times whenever the analysis, method or threshold changes
+  onCutsChange?: (times: number[]) => void;
+}
+
+type Method = "histogram" | "pixel";
+
+interface SceneCandidate {
+  time: number;
+  histogramScore: number;
+  pixelScore: number;
+  thumbnail: string;
+}
+
+const DEFAULT_THRESHOLDS: Record<Method, number> = {
+  histogram: 0.35,
+  pixel: 0.2,
+};
+
+// Differences below this are never kept, so the threshold slider can't go lower
+const MIN_THRESHOLD = 0.05;
+
+export default function SceneDetector({
+  videoUrl,
+  duration,
+  fps,
+  onSeek,
+  onExtractAll,
+  onCutsChange,
+}: SceneDetectorProps) {
+  const [method, setMethod] = useState<Method>("histogram");
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLDS.histogram);
+  const [sampleInterval, setSampleInterval] = useState(0.25);
+  const [candidates, setCandidates] = useState<SceneCandidate[] | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const cancelRef = useRef(false);
+
+  // Results belong to a single video
+  useEffect(() => {
+    cancelRef.current = true;
+    setCandidates(null);
+  }, [videoUrl]);
+
+  useEffect(() => {
+    return () => {
+      cancelRef.current = true;
+    };
+  }, []);
+
+  const analyze = async () => {
+    cancelRef.current = false;
+    setIsAnalyzing(true);
+    setProgress(0);
+    setCandidates([]);
+
+    let video: HTMLVideoElement | null = null;
+    try {
+      video = await loadVideo(videoUrl);
+      const step = Math.max(1 / fps, sampleInterval);
+      const sampleCount = Math.floor(duration / step) + 1;
+      let previous: { image: ImageData; histogram: Float32Array } | null = null;
+
+      for (let i = 0; i < sampleCount; i++) {
+        if (cancelRef.current) break;
+
+        const mediaTime = await seekVideo(video, frameToTime(timeToFrame(i * step, fps), fps));
+        const image = downsample(video, 64, 36);
+        const histogram = colorHistogram(image);
+
+        if (previous) {
+          // Keep both scores so switching method or threshold needs no re-analysis
+          const histogramScore = histogramDistance(previous.histogram, histogram);
+          const pixelScore = pixelDifference(previous.image, image);
+          if (histogramScore >= MIN_THRESHOLD || pixelScore >= MIN_THRESHOLD) {
+            const candidate = { time: mediaTime, histogramScore, pixelScore, thumbnail: videoThumbnail(video) };
+            setCandidates((prev) => [...(prev ?? []), candidate]);
+          }
+        }
+
+        previous = { image, histogram };
+        setProgress((i + 1) / sampleCount);
+      }
+    } catch (err) {
+      console.error("Scene analysis failed:", err);
+      alert("Scene analysis failed. Please try again.");
+    } finally {
+      if (video) releaseVideo(video);
+      setIsAnalyzing(false);
+    }
+  };
+
+  const cuts = useMemo(
+    () =>
+      (candidates ?? []).filter((c) =>
+        (method === "histogram" ? c.histogramScore : c.pixelScore) >= threshold
+      ),
+    [candidates, method, threshold]
+  );
+
+  useEffect(() => {
+    onCutsChange?.(cuts.map((c) => c.time));
+  }, [cuts, onCutsChange]);
+
+  const extractAll = async () => {
+    setIsExtracting(true);
+    try {
+      await onExtractAll(cuts.map((c) => c.time));
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 grid gap-3">
+      <div className="font-medium">Scene detection</div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          Method:
+          <select
+            value={method}
+            onChange={(e) => {
+              const next = e.target.value as Method;
+              setMethod(next);
+              setThreshold(DEFAULT_THRESHOLDS[next]);
+            }}
+            className="px-2 py-1 border rounded"
+          >
+            <option value="histogram">Color histogram</option>
+            <option value="pixel">Pixel difference</option>
+          </select>
+        </label>
+        <label className="flex gap-2 items-center">
+          Threshold:
+          <input
+            type="range"
+            min={MIN_THRESHOLD}
+            max={0.9}
+            step={0.01}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+          />
+          <span className="w-10">{threshold.toFixed(2)}</span>
+        </label>
+        <label className="flex gap-2 items-center">
+          Sample every (s):
+          <input
+            type="number"
+            min={0.04}
+            step={0.05}
+            value={sampleInterval}
+            onChange={(e) => setSampleInterval(Number(e.target.value))}
+            className="w-20 px-2 py-1 border rounded"
+            disabled={isAnalyzing}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        {isAnalyzing ? (
+          <button
+            onClick={() => {
+              cancelRef.current = true;
+            }}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={analyze}
+            disabled={sampleInterval <= 0}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+          >
+            Analyze scenes
+          </button>
+        )}
+        {cuts.length > 0 && (
+          <button
+            onClick={extractAll}
+            disabled={isAnalyzing || isExtracting}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] disabled:opacity-60"
+          >
+            {isExtracting ? "Extracting…" : `Extract all ${cuts.length} cuts`}
+          </button>
+        )}
+      </div>
+
+      {isAnalyzing && <progress value={progress} max={1} className="w-full" />}
+
+      {candidates && !isAnalyzing && cuts.length === 0 && (
+        <div className="text-sm opacity-60">No cuts found at this threshold.</div>
+      )}
+
+      {cuts.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {cuts.map((cut) => (
+            <button
+              key={cut.time}
+              onClick={() => onSeek(cut.time)}
+              className="grid gap-1 text-left rounded hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] p-1"
+              title="Seek to this cut"
+            >
+              <img
+                src={cut.thumbnail}
+                alt={`Scene cut at ${cut.time.toFixed(2)}s`}
+                className="w-full rounded border border-black/[.08] dark:border-white/[.145]"
+              />
+              <span className="text-xs opacity-80">{cut.time.toFixed(2)}s</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { downsample, laplacianVariance } from "./imageAnalysis";
+import {
+  captureFrame,
+  frameToTime,
+  loadVideo,
+  releaseVideo,
+  timeToFrame,
+  totalFrames,
+  videoThumbnail,
+} from "./videoFrames";
+
+interface SharpFramePickerProps {
+  videoUrl: string;
+  duration: number;
+  fps: number;
+  position: number;
+  onPick: (canvas: HTMLCanvasElement, time: number) => void;
+}
+
+interface Candidate {
+  canvas: HTMLCanvasElement;
+  thumbnail: string;
+  time: number;
+  score: number;
+}
+
+// Scoring is done on a downscaled copy, which is plenty to tell blur apart
+const ANALYSIS_WIDTH = 320;
+// Upper bound on frames sampled per search; wider windows are strided
+const MAX_SAMPLES = 120;
+
+export default function SharpFramePicker({ videoUrl, duration, fps, position, onPick }: SharpFramePickerProps) {
+  const [windowSize, setWindowSize] = useState(0.5);
+  const [candidateCount, setCandidateCount] = useState(3);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const cancelRef = useRef(false);
+
+  useEffect(() => {
+    cancelRef.current = true;
+    setCandidates([]);
+  }, [videoUrl]);
+
+  useEffect(() => {
+    return () => {
+      cancelRef.current = true;
+    };
+  }, []);
+
+  const search = async () => {
+    cancelRef.current = false;
+    setIsSearching(true);
+    setProgress(0);
+    setCandidates([]);
+
+    const lastFrame = totalFrames(duration, fps) - 1;
+    const firstFrame = Math.max(0, timeToFrame(position - windowSize, fps));
+    const endFrame = Math.min(lastFrame, timeToFrame(position + windowSize, fps));
+    const stride = Math.max(1, Math.ceil((endFrame - firstFrame + 1) / MAX_SAMPLES));
+
+    let video: HTMLVideoElement | null = null;
+    try {
+      video = await loadVideo(videoUrl);
+      const analysisHeight = Math.max(1, Math.round((ANALYSIS_WIDTH * video.videoHeight) / (video.videoWidth || 1)));
+      // Only the best few full-size frames are kept around
+      let best: Candidate[] = [];
+
+      for (let frame = firstFrame; frame <= endFrame; frame += stride) {
+        if (cancelRef.current) break;
+
+        const { canvas, mediaTime } = await captureFrame(video, frameToTime(frame, fps));
+        const score = laplacianVariance(downsample(canvas, ANALYSIS_WIDTH, analysisHeight));
+
+        if (best.length < candidateCount || score > best[best.length - 1].score) {
+          const thumbnail = videoThumbnail(canvas, 240);
+          best = [...best, { canvas, thumbnail, time: mediaTime, score }]
+            .sort((a, b) => b.score - a.score)
+            .slice(0, candidateCount);
+          setCandidates(best);
+        }
+        setProgress((frame - firstFrame + 1) / (endFrame - firstFrame + 1));
+      }
+    } catch (err) {
+      console.error("Sharp frame search failed:", err);
+      alert("Failed to search for a sharp frame. Please try again.");
+    } finally {
+      if (video) releaseVideo(video);
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-4 grid gap-3">
+      <div className="font-medium">Sharpest nearby frame</div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <label className="flex gap-2 items-center">
+          Search ± (s):
+          <input
+            type="number"
+            min={1 / fps}
+            step={0.1}
+            value={windowSize}
+            onChange={(e) => setWindowSize(Math.max(0, Number(e.target.value)))}
+            className="w-20 px-2 py-1 border rounded"
+            disabled={isSearching}
+          />
+        </label>
+        <label className="flex gap-2 items-center">
+          Candidates:
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={candidateCount}
+            onChange={(e) => setCandidateCount(Math.min(8, Math.max(1, Math.round(Number(e.target.value)))))}
+            className="w-16 px-2 py-1 border rounded"
+            disabled={isSearching}
+          />
+        </label>
+        {isSearching ? (
+          <button
+            onClick={() => {
+              cancelRef.current = true;
+            }}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={search}
+            className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+          >
+            Find sharpest frames
+          </button>
+        )}
+      </div>
+
+      {isSearching && <progress value={progress} max={1} className="w-full" />}
+
+      {candidates.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {candidates.map((candidate, i) => (
+            <button
+              key={candidate.time}
+              onClick={() => onPick(candidate.canvas, candidate.time)}
+              className="grid gap-1 text-left rounded hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] p-1"
+              title="Use this frame"
+            >
+              <img
+                src={candidate.thumbnail}
+                alt={`Candidate frame at ${candidate.time.toFixed(2)}s`}
+                className="w-full rounded border border-black/[.08] dark:border-white/[.145]"
+              />
+              <span className="text-xs opacity-80">
+                #{i + 1} · {candidate.time.toFixed(2)}s · sharpness {Math.round(candidate.score)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { LINE_STYLES } from "./annotationStyle";
+import type { AnnotationStyle, LineStyle, StyleChange } from "./annotationStyle";
+
+interface StyleBarProps {
+  style: AnnotationStyle;
+  // commit is false while a slider is being dragged; onCommit follows on release
+  onChange: (change: StyleChange, commit: boolean) => void;
+  onCommit: () => void;
+}
+
+export default function StyleBar({ style, onChange, onCommit }: StyleBarProps) {
+  return (
+    <div className="flex flex-wrap gap-4 items-center text-sm">
+      <label className="flex gap-2 items-center">
+        Width:
+        <input
+          type="range"
+          min={1}
+          max={40}
+          step={1}
+          value={style.strokeWidth}
+          onChange={(e) => onChange({ strokeWidth: Number(e.target.value) }, false)}
+          onPointerUp={onCommit}
+          onKeyUp={onCommit}
+        />
+        <span className="w-6">{style.strokeWidth}</span>
+      </label>
+      <label className="flex gap-2 items-center">
+        Line:
+        <select
+          value={style.lineStyle}
+          onChange={(e) => onChange({ lineStyle: e.target.value as LineStyle }, true)}
+          className="px-2 py-1 border rounded"
+        >
+          {LINE_STYLES.map((lineStyle) => (
+            <option key={lineStyle.id} value={lineStyle.id}>
+              {lineStyle.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="flex gap-2 items-center">
+        <label className="flex gap-2 items-center">
+          <input
+            type="checkbox"
+            checked={style.filled}
+            onChange={(e) => onChange({ filled: e.target.checked, fill: style.fill }, true)}
+          />
+          Fill:
+        </label>
+        <input
+          type="color"
+          value={style.fill}
+          disabled={!style.filled}
+          onChange={(e) => onChange({ filled: true, fill: e.target.value }, false)}
+          onBlur={onCommit}
+          className="w-8 h-8 border rounded cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          aria-label="Fill color"
+        />
+      </div>
+      <label className="flex gap-2 items-center">
+        Opacity:
+        <input
+          type="range"
+          min={0.05}
+          max={1}
+          step={0.05}
+          value={style.opacity}
+          onChange={(e) => onChange({ opacity: Number(e.target.value) }, false)}
+          onPointerUp={onCommit}
+          onKeyUp={onCommit}
+        />
+        <span className="w-10">{Math.round(style.opacity * 100)}%</span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { FONTS } from "./textStyle";
+import type { TextAlign, TextStyle } from "./textStyle";
+
+interface TextBarProps {
+  style: TextStyle;
+  // commit is false while a slider or colour is being dragged; onCommit follows on release
+  onChange: (change: Partial<TextStyle>, commit: boolean) => void;
+  onCommit: () => void;
+}
+
+const ALIGNS: { id: TextAlign; icon: string; label: string }[] = [
+  { id: "left", icon: "⇤", label: "Align left" },
+  { id: "center", icon: "↔", label: "Centre" },
+  { id: "right", icon: "⇥", label: "Align right" },
+];
+
+const toggleClass = (on: boolean) =>
+  `w-8 h-8 rounded ${on ? "bg-blue-500 text-white" : "bg-gray-200 dark:bg-gray-700"}`;
+
+export default function TextBar({ style, onChange, onCommit }: TextBarProps) {
+  return (
+    <div className="flex flex-wrap gap-4 items-center text-sm">
+      <label className="flex gap-2 items-center">
+        Font:
+        <select
+          value={style.font}
+          onChange={(e) => onChange({ font: e.target.value }, true)}
+          className="px-2 py-1 border rounded"
+        >
+          {FONTS.map((font) => (
+            <option key={font.id} value={font.id}>
+              {font.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex gap-2 items-center">
+        Size:
+        <input
+          type="number"
+          min={6}
+          max={300}
+          value={style.fontSize}
+          onChange={(e) => {
+            const fontSize = Number(e.target.value);
+            if (fontSize >= 6 && fontSize <= 300) onChange({ fontSize }, true);
+          }}
+          className="w-16 px-2 py-1 border rounded"
+        />
+      </label>
+
+      <div className="flex gap-1">
+        <button
+          onClick={() => onChange({ bold: !style.bold }, true)}
+          className={`${toggleClass(style.bold)} font-bold`}
+          title="Bold"
+        >
+          B
+        </button>
+        <button
+          onClick={() => onChange({ italic: !style.italic }, true)}
+          className={`${toggleClass(style.italic)} italic`}
+          title="Italic"
+        >
+          I
+        </button>
+        <button
+          onClick={() => onChange({ underline: !style.underline }, true)}
+          className={`${toggleClass(style.underline)} underline`}
+          title="Underline"
+        >
+          U
+        </button>
+      </div>
+      <div className="flex gap-1">
+        {ALIGNS.map((align) => (
+          <button
+            key={align.id}
+            onClick={() => onChange({ align: align.id }, true)}
+            className={toggleClass(style.align === align.id)}
+            title={align.label}
+          >
+            {align.icon}
+          </button>
+        ))}
+      </div>
+      <label className="flex gap-2 items-center">
+        Line height:
+        <input
+          type="range"
+          min={0.8}
+          max={3}
+          step={0.05}
+          value={style.lineHeight}
+          onChange={(e) => onChange({ lineHeight: Number(e.target.value) }, false)}
+          onPointerUp={onCommit}
+          onKeyUp={onCommit}
+        />
+        <span className="w-8">{style.lineHeight.toFixed(2)}</span>
+      </label>
+
+      <div className="flex gap-2 items-center">
+        <label className="flex gap-2 items-center">
+          <input
+            type="checkbox"
+            checked={style.background}
+            onChange={(e) =>
+              onChange({ background: e.target.checked, backgroundColor: style.backgroundColor }, true)
+            }
+          />
+          Box:
+        </label>
+        <input
+          type="color"
+          value={style.backgroundColor}
+          disabled={!style.background}
+          onChange={(e) => onChange({ background: true, backgroundColor: e.target.value }, false)}
+          onBlur={onCommit}
+          className="w-8 h-8 border rounded cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          aria-label="Box color"
+        />
+        <label className={`flex gap-2 items-center ${style.background ? "" : "opacity-50"}`}>
+          Padding:
+          <input
+            type="range"
+            min={0}
+            max={40}
+            step={1}
+            value={style.boxPadding}
+            disabled={!style.background}
+            onChange={(e) => onChange({ boxPadding: Number(e.target.value) }, false)}
+            onPointerUp={onCommit}
+            onKeyUp={onCommit}
+          />
+        </label>
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <label className="flex gap-2 items-center">
+          <input
+            type="checkbox"
+            checked={style.outline}
+            onChange={(e) =>
+              onChange(
+                { outline: e.target.checked, outlineColor: style.outlineColor, outlineWidth: style.outlineWidth },
+                true
+              )
+            }
+          />
+          Outline:
+        </label>
+        <input
+          type="color"
+          value={style.outlineColor}
+          disabled={!style.outline}
+          onChange={(e) =>
+            onChange({ outline: true, outlineColor: e.target.value, outlineWidth: style.outlineWidth }, false)
+          }
+          onBlur={onCommit}
+          className="w-8 h-8 border rounded cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          aria-label="Outline color"
+        />
+        <input
+          type="range"
+          min={1}
+          max={12}
+          step={0.5}
+          value={style.outlineWidth}
+          disabled={!style.outline}
+          onChange={(e) =>
+            onChange({ outline: true, outlineColor: style.outlineColor, outlineWidth: Number(e.target.value) }, false)
+          }
+          onPointerUp={onCommit}
+          onKeyUp={onCommit}
+          className={style.outline ? "" : "opacity-50"}
+          aria-label="Outline width"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+// "native" plays the file in a <video> element, "ffmpeg" decodes frames with ffmpeg.wasm
+export type Decoder = "native" | "ffmpeg";
+
+export interface CapturedFrame {
+  // Full-resolution capture, re-encoded when the output format changes
+  canvas: HTMLCanvasElement;
+  time: number;
+  thumbnail: string;
+}
+
+// Everything the grabber remembers about a video while another one is open
+export interface VideoEntry {
+  id: string;
+  file: File;
+  url: string;
+  decoder: Decoder;
+  duration: number;
+  fps: number;
+  // SMPTE timecode of the first frame
+  startTimecode: string;
+  position: number;
+  captures: CapturedFrame[];
+  capturedFrame: CapturedFrame | null;
+}
+
+interface VideoLibraryProps {
+  entries: VideoEntry[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export default function VideoLibrary({ entries, activeId, onSelect, onRemove }: VideoLibraryProps) {
+  return (
+    <div className="border border-black/[.08] dark:border-white/[.145] rounded-lg p-3 grid gap-2">
+      <div className="font-medium text-sm">Videos ({entries.length})</div>
+      <ul className="grid gap-1">
+        {entries.map((entry) => {
+          const latest = entry.captures[entry.captures.length - 1];
+          return (
+            <li
+              key={entry.id}
+              className={`flex items-center gap-2 rounded p-1 ${
+                entry.id === activeId
+                  ? "bg-black/[.08] dark:bg-white/[.08]"
+                  : "hover:bg-black/[.04] dark:hover:bg-white/[.04]"
+              }`}
+            >
+              <button onClick={() => onSelect(entry.id)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                {latest ? (
+                  <img src={latest.thumbnail} alt="" className="w-12 h-8 object-cover rounded shrink-0" />
+                ) : (
+                  <div className="w-12 h-8 rounded shrink-0 bg-black/[.06] dark:bg-white/[.08]" />
+                )}
+                <span className="min-w-0">
+                  <span className="block truncate text-sm" title={entry.file.name}>
+                    {entry.file.name}
+                  </span>
+                  <span className="block text-xs opacity-60">
+                    {entry.duration > 0 ? `${entry.duration.toFixed(1)}s` : "Loading…"}
+                    {entry.captures.length > 0 &&
+                      ` · ${entry.captures.length} frame${entry.captures.length === 1 ? "" : "s"}`}
+                  </span>
+                </span>
+              </button>
+              <button
+                onClick={() => onRemove(entry.id)}
+                className="px-2 h-7 rounded opacity-60 hover:opacity-100 hover:bg-black/[.08] dark:hover:bg-white/[.08]"
+                title="Remove from list"
+                aria-label={`Remove ${entry.file.name}`}
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+// Stroke, fill and opacity settings shared by the editor's drawing tools, and
+// how they map onto Fabric object properties. Widths are given for a 720px
+// tall document and multiplied by the document's annotation scale.
+
+import { Color } from "fabric";
+import type { Canvas, FabricObject, Group } from "fabric";
+
+// Stroke widths and font sizes are given for a 720px tall document and grow
+// with larger ones, so annotations look the same on screen at any resolution
+const REFERENCE_HEIGHT = 720;
+export const annotationScale = (canvas: Canvas) =>
+  Math.max(1, (canvas.height || REFERENCE_HEIGHT) / REFERENCE_HEIGHT);
+
+export type LineStyle = "solid" | "dashed" | "dotted";
+
+export const LINE_STYLES: { id: LineStyle; label: string }[] = [
+  { id: "solid", label: "Solid" },
+  { id: "dashed", label: "Dashed" },
+  { id: "dotted", label: "Dotted" },
+];
+
+export interface AnnotationStyle {
+  strokeWidth: number;
+  // The fill colour is kept while filling is off so it comes back when turned on
+  filled: boolean;
+  fill: string;
+  opacity: number;
+  lineStyle: LineStyle;
+}
+
+export const DEFAULT_ANNOTATION_STYLE: AnnotationStyle = {
+  strokeWidth: 5,
+  filled: false,
+  fill: "#ffffff",
+  opacity: 1,
+  lineStyle: "solid",
+};
+
+// What a style bar control changed; the colour is the editor's main colour
+export type StyleChange = Partial<AnnotationStyle> & { color?: string };
+
+const TEXT_TYPES = new Set(["itext", "textbox", "text", "labeltext"]);
+const FILLABLE_TYPES = new Set(["rect", "circle", "ellipse", "triangle", "polygon"]);
+
+// Dots are zero-length dashes drawn with round caps
+export function dashProps(
+  lineStyle: LineStyle,
+  width: number,
+  roundCaps: boolean
+): { strokeDashArray: number[] | null; strokeLineCap: CanvasLineCap } {
+  switch (lineStyle) {
+    case "solid":
+      return { strokeDashArray: null, strokeLineCap: roundCaps ? "round" : "butt" };
+    case "dashed":
+      return { strokeDashArray: [width * 3, width * 2], strokeLineCap: roundCaps ? "round" : "butt" };
+    case "dotted":
+      return { strokeDashArray: [0, width * 2], strokeLineCap: "round" };
+  }
+}
+
+// Properties for a new shape drawn with the given style and colour
+export const strokeProps = (style: AnnotationStyle, color: string, scale: number) => ({
+  stroke: color,
+  strokeWidth: style.strokeWidth * scale,
+  opacity: style.opacity,
+  ...dashProps(style.lineStyle, style.strokeWidth * scale, false),
+});
+
+export const fillOf = (style: AnnotationStyle) => (style.filled ? style.fill : "transparent");
+
+// Black or white, whichever reads better on the given colour
+export const contrastColor = (color: string) => {
+  const [r, g, b] = new Color(color).getSource();
+  return r * 0.299 + g * 0.587 + b * 0.114 > 160 ? "#000000" : "#ffffff";
+};
+
+// Freehand paths and arrows use round caps, so dashes on them are rounded too
+const hasRoundCaps = (obj: FabricObject) => obj.type === "path";
+
+const lineStyleOf = (obj: FabricObject): LineStyle => {
+  if (!obj.strokeDashArray?.length) return "solid";
+  return obj.strokeDashArray[0] === 0 ? "dotted" : "dashed";
+};
+
+// Colour inputs only take #rrggbb
+export const hexColor = (color: string) => `#${new Color(color).toHex().toLowerCase()}`;
+
+// The style settings an object carries, for showing it in the style bar;
+// settings the object doesn't support are left out
+export function styleOf(obj: FabricObject, scale: number): Partial<AnnotationStyle> {
+  const style: Partial<AnnotationStyle> = { opacity: obj.opacity };
+  if (obj.annotationType === "step" || ["redaction", "group", "image"].includes(obj.type) || TEXT_TYPES.has(obj.type)) {
+    return style;
+  }
+
+  style.strokeWidth = Math.round(obj.strokeWidth / scale);
+  style.lineStyle = lineStyleOf(obj);
+  const fillable = FILLABLE_TYPES.has(obj.type) || obj.annotationType === "callout";
+  if (fillable && typeof obj.fill === "string") {
+    style.filled = obj.fill !== "transparent" && obj.fill !== "";
+    if (style.filled) style.fill = hexColor(obj.fill);
+  }
+  return style;
+}
+
+// Restyle an existing object with whatever the change covers and the object
+// supports: text only takes colour and opacity, images only opacity
+export function applyStyle(obj: FabricObject, change: StyleChange, scale: number) {
+  // Redactions are always opaque; only a filled one has a colour
+  if (obj.type === "redaction") {
+    if (change.color) obj.set({ fill: change.color });
+    return;
+  }
+
+  if (change.opacity !== undefined) obj.set({ opacity: change.opacity });
+
+  // A step marker is a disc in the colour with its number in contrast
+  if (obj.annotationType === "step") {
+    const [disc, label] = (obj as Group).getObjects();
+    if (change.color) {
+      disc?.set({ fill: change.color });
+      label?.set({ fill: contrastColor(change.color) });
+      obj.set("dirty", true);
+    }
+    return;
+  }
+
+  if (obj.type === "group") {
+    const group = obj as Group;
+    group.getObjects().forEach((member) => applyStyle(member, { ...change, opacity: undefined }, scale));
+    // Wider strokes can grow the group's bounds
+    group.triggerLayout();
+    group.set("dirty", true);
+    return;
+  }
+  if (obj.type === "image") return;
+  if (TEXT_TYPES.has(obj.type)) {
+    if (change.color) obj.set({ fill: change.color });
+    return;
+  }
+
+  if (change.color) obj.set({ stroke: change.color });
+  if (change.strokeWidth !== undefined || change.lineStyle !== undefined) {
+    const width = change.strokeWidth !== undefined ? change.strokeWidth * scale : obj.strokeWidth;
+    obj.set({ strokeWidth: width, ...dashProps(change.lineStyle ?? lineStyleOf(obj), width, hasRoundCaps(obj)) });
+  }
+  const fillable = FILLABLE_TYPES.has(obj.type) || obj.annotationType === "callout";
+  if (change.filled !== undefined && change.fill !== undefined && fillable) {
+    obj.set({ fill: change.filled ? change.fill : "transparent" });
+  }
+  obj.setCoords();
+}
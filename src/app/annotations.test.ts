@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { Group, Path, Rect } from "fabric";
+import type { Canvas } from "fabric";
+import { arrowPath, calloutPath, nextStepNumber, renumberSteps, reshapePath, stepMarkers } from "./annotations";
+
+// Start and end points of each subpath ("M x y L x y ...")
+const subpaths = (d: string) =>
+  d
+    .trim()
+    .split(/\s*M\s+/)
+    .filter(Boolean)
+    .map((part) => part.split(/\s+L\s+/).map((point) => point.split(/\s+/).map(Number)));
+
+describe("arrowPath", () => {
+  const start = { x: 0, y: 0 };
+  const end = { x: 100, y: 0 };
+
+  it("draws just the shaft without heads", () => {
+    expect(subpaths(arrowPath(start, end, "none", 4))).toEqual([[[0, 0], [100, 0]]]);
+  });
+
+  it("adds a head whose point is the end of the shaft", () => {
+    const [shaft, head] = subpaths(arrowPath(start, end, "end", 4));
+    expect(shaft).toEqual([[0, 0], [100, 0]]);
+    expect(head[1]).toEqual([100, 0]);
+    // Wings sit symmetrically behind the tip, 3 × width + 10 back
+    expect(head[0][0]).toBeCloseTo(100 - 22 * Math.cos(Math.PI / 7));
+    expect(head[0][1]).toBeCloseTo(-head[2][1]);
+  });
+
+  it("adds a second head at the start when asked", () => {
+    const heads = subpaths(arrowPath(start, end, "both", 4)).slice(1);
+    expect(heads.map((head) => head[1])).toEqual([[100, 0], [0, 0]]);
+  });
+
+  it("keeps heads to half the arrow's length", () => {
+    const [, head] = subpaths(arrowPath(start, { x: 10, y: 0 }, "end", 20));
+    expect(Math.hypot(head[0][0] - 10, head[0][1])).toBeCloseTo(5);
+  });
+});
+
+describe("calloutPath", () => {
+  const center = { x: 100, y: 100 };
+  const bounds = (d: string) => {
+    const path = new Path(d, { strokeWidth: 0 });
+    return { left: path.left, top: path.top, width: path.width, height: path.height };
+  };
+
+  it.each([
+    ["below", { x: 100, y: 300 }, { left: 50, top: 75, width: 100, height: 225 }],
+    ["above", { x: 100, y: -100 }, { left: 50, top: -100, width: 100, height: 225 }],
+    ["right", { x: 300, y: 100 }, { left: 50, top: 75, width: 250, height: 50 }],
+    ["left", { x: -100, y: 100 }, { left: -100, top: 75, width: 250, height: 50 }],
+  ])("points the tail at a tip %s the box", (_, tip, expected) => {
+    const d = calloutPath(tip, center, 100, 50);
+    expect(d).toContain(`L ${tip.x} ${tip.y}`);
+    expect(bounds(d)).toEqual(expected);
+  });
+});
+
+describe("reshapePath", () => {
+  it("refits the bounds around the new outline", () => {
+    const path = new Path("M 0 0 L 10 10", { strokeWidth: 0 });
+    reshapePath(path, "M 5 5 L 30 45");
+    expect([path.left, path.top, path.width, path.height]).toEqual([5, 5, 25, 40]);
+  });
+});
+
+describe("step numbers", () => {
+  const step = (n: number) => {
+    const marker = new Rect({ width: 10, height: 10 });
+    marker.stepNumber = n;
+    return marker;
+  };
+  const canvasOf = (objects: (Rect | Group)[]) => ({ getObjects: () => objects }) as unknown as Canvas;
+
+  it("finds markers inside groups, in step order", () => {
+    const grouped = step(2);
+    const objects = [step(3), new Group([new Rect(), grouped]), new Rect(), step(1)];
+    expect(stepMarkers(objects).map((marker) => marker.stepNumber)).toEqual([1, 2, 3]);
+    expect(nextStepNumber(canvasOf(objects))).toBe(4);
+  });
+
+  it("starts at 1 on a canvas without markers", () => {
+    expect(nextStepNumber(canvasOf([new Rect()]))).toBe(1);
+  });
+
+  it("closes gaps left by deleted markers", () => {
+    const objects = [step(4), step(1), new Group([step(7)])];
+    renumberSteps(canvasOf(objects));
+    expect(stepMarkers(objects).map((marker) => marker.stepNumber)).toEqual([1, 2, 3]);
+    expect(objects[0].stepNumber).toBe(2);
+    expect(nextStepNumber(canvasOf(objects))).toBe(4);
+  });
+});
@@ -0,0 +1,155 @@
+// Shapes for the arrow, callout and numbered-step tools, built from plain
+// Fabric paths and groups so they serialize and restyle like any other object.
+
+import { Circle, FabricObject, FabricText, Group, util } from "fabric";
+import type { Canvas, Path } from "fabric";
+import { contrastColor } from "./annotationStyle";
+
+export type AnnotationType = "arrow" | "callout" | "step";
+
+declare module "fabric" {
+  interface FabricObject {
+    // Which tool made the object, where its Fabric type alone doesn't say
+    annotationType?: AnnotationType;
+    stepNumber?: number;
+  }
+  interface SerializedObjectProps {
+    annotationType?: AnnotationType;
+    stepNumber?: number;
+  }
+}
+
+FabricObject.customProperties = [...FabricObject.customProperties, "annotationType", "stepNumber"];
+
+export type ArrowHead = "end" | "both" | "none";
+
+export const ARROW_HEADS: { id: ArrowHead; label: string }[] = [
+  { id: "end", label: "→ Single" },
+  { id: "both", label: "↔ Double" },
+  { id: "none", label: "— None" },
+];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Open chevron at `tip`, pointing away from `from`
+const arrowHeadPath = (tip: Point, from: Point, size: number) => {
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+  const spread = Math.PI / 7;
+  const wing = (side: number) => ({
+    x: tip.x - size * Math.cos(angle + side * spread),
+    y: tip.y - size * Math.sin(angle + side * spread),
+  });
+  const [a, b] = [wing(1), wing(-1)];
+  return ` M ${a.x} ${a.y} L ${tip.x} ${tip.y} L ${b.x} ${b.y}`;
+};
+
+// Give a path being dragged out a new outline, keeping it where the outline
+// says (its bounds and position are refitted around it)
+export function reshapePath(path: Path, d: string) {
+  path.set({ path: util.makePathSimpler(util.parsePath(d)) });
+  path.setBoundingBox(true);
+  path.setCoords();
+}
+
+// Shaft plus heads as one stroked path; heads grow with the stroke width
+export function arrowPath(start: Point, end: Point, head: ArrowHead, strokeWidth: number) {
+  const size = Math.min(strokeWidth * 3 + 10, Math.hypot(end.x - start.x, end.y - start.y) / 2 || 1);
+  let d = `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
+  if (head !== "none") d += arrowHeadPath(end, start, size);
+  if (head === "both") d += arrowHeadPath(start, end, size);
+  return d;
+}
+
+// Rounded box around `center` with a wedge-shaped tail out to `tip`. The tail
+// leaves from whichever side of the box faces the tip.
+export function calloutPath(tip: Point, center: Point, width: number, height: number) {
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const right = left + width;
+  const bottom = top + height;
+  const r = Math.min(width, height) * 0.2;
+  const dx = (tip.x - center.x) / width;
+  const dy = (tip.y - center.y) / height;
+  const side = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? "right" : "left") : dy > 0 ? "bottom" : "top";
+
+  // Base of the tail along the chosen side, nudged towards the tip
+  const base = Math.min(width, height) * 0.3;
+  const along = (from: number, to: number, toward: number) =>
+    Math.min(Math.max(toward, from + r + base / 2), to - r - base / 2);
+  const tailX = along(left, right, tip.x);
+  const tailY = along(top, bottom, tip.y);
+  const tail = (a: Point, b: Point) => ` L ${a.x} ${a.y} L ${tip.x} ${tip.y} L ${b.x} ${b.y}`;
+
+  // Clockwise from the top-left corner
+  let d = `M ${left + r} ${top}`;
+  if (side === "top") d += tail({ x: tailX - base / 2, y: top }, { x: tailX + base / 2, y: top });
+  d += ` L ${right - r} ${top} Q ${right} ${top} ${right} ${top + r}`;
+  if (side === "right") d += tail({ x: right, y: tailY - base / 2 }, { x: right, y: tailY + base / 2 });
+  d += ` L ${right} ${bottom - r} Q ${right} ${bottom} ${right - r} ${bottom}`;
+  if (side === "bottom") d += tail({ x: tailX + base / 2, y: bottom }, { x: tailX - base / 2, y: bottom });
+  d += ` L ${left + r} ${bottom} Q ${left} ${bottom} ${left} ${bottom - r}`;
+  if (side === "left") d += tail({ x: left, y: tailY + base / 2 }, { x: left, y: tailY - base / 2 });
+  d += ` L ${left} ${top + r} Q ${left} ${top} ${left + r} ${top} Z`;
+  return d;
+}
+
+// Step markers among the objects, grouped ones included, in step order
+export function stepMarkers(objects: FabricObject[]) {
+  const markers: FabricObject[] = [];
+  const collect = (objects: FabricObject[]) =>
+    objects.forEach((obj) => {
+      if (obj.stepNumber !== undefined) markers.push(obj);
+      else if (obj instanceof Group) collect(obj.getObjects());
+    });
+  collect(objects);
+  return markers.sort((a, b) => (a.stepNumber ?? 0) - (b.stepNumber ?? 0));
+}
+
+export const nextStepNumber = (canvas: Canvas) =>
+  stepMarkers(canvas.getObjects()).reduce((max, marker) => Math.max(max, marker.stepNumber ?? 0), 0) + 1;
+
+export function setStepNumber(marker: FabricObject, n: number) {
+  marker.stepNumber = n;
+  if (!(marker instanceof Group)) return;
+  const label = marker.getObjects().find((obj) => obj instanceof FabricText);
+  label?.set("text", String(n));
+  marker.set("dirty", true);
+}
+
+// Close the gaps left by deleted markers: 1, 3, 4 becomes 1, 2, 3
+export function renumberSteps(canvas: Canvas) {
+  stepMarkers(canvas.getObjects()).forEach((marker, i) => {
+    if (marker.stepNumber !== i + 1) setStepNumber(marker, i + 1);
+  });
+}
+
+// Filled disc in the annotation colour with the number in a contrasting colour
+export function createStepMarker(n: number, center: Point, radius: number, color: string, opacity: number) {
+  const disc = new Circle({
+    radius,
+    fill: color,
+    originX: "center",
+    originY: "center",
+  });
+  const label = new FabricText(String(n), {
+    fontFamily: "Arial",
+    fontWeight: "bold",
+    fontSize: radius * 1.2,
+    fill: contrastColor(color),
+    originX: "center",
+    originY: "center",
+  });
+  const marker = new Group([disc, label], {
+    left: center.x,
+    top: center.y,
+    originX: "center",
+    originY: "center",
+    opacity,
+  });
+  marker.annotationType = "step";
+  marker.stepNumber = n;
+  return marker;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { Rect } from "fabric";
+import { alignObjects, distributeObjects } from "./arrange";
+
+// Unstroked boxes, so their bounding boxes are exactly left/top/width/height
+const box = (left: number, top: number, width: number, height: number) =>
+  new Rect({ left, top, width, height, strokeWidth: 0 });
+
+const positions = (objects: Rect[]) => objects.map((obj) => [obj.left, obj.top]);
+
+describe("alignObjects", () => {
+  const boxes = () => [box(10, 40, 20, 10), box(50, 0, 40, 30), box(0, 20, 10, 60)];
+
+  it.each([
+    ["left", [[0, 40], [0, 0], [0, 20]]],
+    ["center", [[35, 40], [25, 0], [40, 20]]],
+    ["right", [[70, 40], [50, 0], [80, 20]]],
+    ["top", [[10, 0], [50, 0], [0, 0]]],
+    ["middle", [[10, 35], [50, 25], [0, 10]]],
+    ["bottom", [[10, 70], [50, 50], [0, 20]]],
+  ] as const)("lines boxes up: %s", (alignment, expected) => {
+    const objects = boxes();
+    alignObjects(objects, alignment);
+    expect(positions(objects)).toEqual(expected);
+  });
+
+  it("uses the bounding box of rotated objects", () => {
+    const rotated = box(100, 0, 20, 20);
+    rotated.set({ angle: 90 });
+    const objects = [box(0, 0, 10, 10), rotated];
+    alignObjects(objects, "left");
+    expect(objects[1].getBoundingRect().left).toBeCloseTo(0);
+  });
+});
+
+describe("distributeObjects", () => {
+  it("evens out the gaps and keeps the outer objects in place", () => {
+    const objects = [box(0, 0, 10, 10), box(100, 5, 30, 10), box(20, 10, 10, 10)];
+    distributeObjects(objects, "horizontal");
+    // Span 130, boxes 50 wide in total, so two gaps of 40
+    expect(positions(objects)).toEqual([[0, 0], [100, 5], [50, 10]]);
+  });
+
+  it("works vertically", () => {
+    const objects = [box(0, 0, 10, 10), box(5, 12, 10, 20), box(10, 90, 10, 10)];
+    distributeObjects(objects, "vertical");
+    expect(positions(objects)).toEqual([[0, 0], [5, 40], [10, 90]]);
+  });
+
+  it("leaves fewer than three objects alone", () => {
+    const objects = [box(0, 0, 10, 10), box(50, 0, 10, 10)];
+    distributeObjects(objects, "horizontal");
+    expect(positions(objects)).toEqual([[0, 0], [50, 0]]);
+  });
+});
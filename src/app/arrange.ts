@@ -0,0 +1,76 @@
+// Align and distribute for several editor objects at once. Objects must be
+// positioned in canvas coordinates, i.e. not inside an active selection.
+
+import type { FabricObject, TBBox } from "fabric";
+
+export type Alignment = "left" | "center" | "right" | "top" | "middle" | "bottom";
+export type Axis = "horizontal" | "vertical";
+
+export const ALIGNMENTS: { id: Alignment; icon: string; label: string }[] = [
+  { id: "left", icon: "⇤", label: "Align left edges" },
+  { id: "center", icon: "↔", label: "Align horizontal centres" },
+  { id: "right", icon: "⇥", label: "Align right edges" },
+  { id: "top", icon: "⤒", label: "Align top edges" },
+  { id: "middle", icon: "↕", label: "Align vertical centres" },
+  { id: "bottom", icon: "⤓", label: "Align bottom edges" },
+];
+
+const moveBy = (obj: FabricObject, dx: number, dy: number) => {
+  obj.set({ left: obj.left + dx, top: obj.top + dy });
+  obj.setCoords();
+};
+
+const bounds = (boxes: TBBox[]) => ({
+  left: Math.min(...boxes.map((b) => b.left)),
+  top: Math.min(...boxes.map((b) => b.top)),
+  right: Math.max(...boxes.map((b) => b.left + b.width)),
+  bottom: Math.max(...boxes.map((b) => b.top + b.height)),
+});
+
+// Line the objects' bounding boxes up with an edge or the centre of the box
+// around all of them
+export function alignObjects(objects: FabricObject[], alignment: Alignment) {
+  const boxes = objects.map((obj) => obj.getBoundingRect());
+  const { left, top, right, bottom } = bounds(boxes);
+
+  objects.forEach((obj, i) => {
+    const box = boxes[i];
+    switch (alignment) {
+      case "left":
+        return moveBy(obj, left - box.left, 0);
+      case "center":
+        return moveBy(obj, (left + right) / 2 - (box.left + box.width / 2), 0);
+      case "right":
+        return moveBy(obj, right - (box.left + box.width), 0);
+      case "top":
+        return moveBy(obj, 0, top - box.top);
+      case "middle":
+        return moveBy(obj, 0, (top + bottom) / 2 - (box.top + box.height / 2));
+      case "bottom":
+        return moveBy(obj, 0, bottom - (box.top + box.height));
+    }
+  });
+}
+
+// Space the objects out so the gaps between neighbours are equal, keeping the
+// outermost ones where they are
+export function distributeObjects(objects: FabricObject[], axis: Axis) {
+  if (objects.length < 3) return;
+  const horizontal = axis === "horizontal";
+  const start = (box: TBBox) => (horizontal ? box.left : box.top);
+  const size = (box: TBBox) => (horizontal ? box.width : box.height);
+
+  const items = objects
+    .map((obj) => ({ obj, box: obj.getBoundingRect() }))
+    .sort((a, b) => start(a.box) - start(b.box));
+  const extent = bounds(items.map(({ box }) => box));
+  const span = horizontal ? extent.right - extent.left : extent.bottom - extent.top;
+  const gap = (span - items.reduce((sum, { box }) => sum + size(box), 0)) / (items.length - 1);
+
+  let position = start(items[0].box);
+  for (const { obj, box } of items) {
+    const delta = position - start(box);
+    moveBy(obj, horizontal ? delta : 0, horizontal ? 0 : delta);
+    position += size(box) + gap;
+  }
+}
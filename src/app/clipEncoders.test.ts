@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { createClipEncoder } from "./clipEncoders";
+
+const encode = (text: string) => [...new TextEncoder().encode(text)];
+const fourCC = (bytes: Uint8Array, offset: number) => new TextDecoder().decode(bytes.subarray(offset, offset + 4));
+const uint24 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const riffChunk = (type: string, payload: number[]) => {
+  const size = [0, 8, 16, 24].map((shift) => (payload.length >> shift) & 0xff);
+  return [...encode(type), ...size, ...payload, ...(payload.length & 1 ? [0] : [])];
+};
+
+const stillWebp = (...chunks: number[][]) => {
+  const body = [...encode("WEBP"), ...chunks.flat()];
+  return new Uint8Array(riffChunk("RIFF", body));
+};
+
+// Stands in for a canvas whose toBlob gives the given still image
+const fakeCanvas = (webp: Uint8Array<ArrayBuffer>) =>
+  ({
+    toBlob: (callback: (blob: Blob | null) => void) => callback(new Blob([webp], { type: "image/webp" })),
+  }) as unknown as HTMLCanvasElement;
+
+// Top-level chunks of a RIFF file, after checking its header
+const chunks = (file: Uint8Array) => {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  expect(fourCC(file, 0)).toBe("RIFF");
+  expect(view.getUint32(4, true)).toBe(file.length - 8);
+  expect(fourCC(file, 8)).toBe("WEBP");
+  const found: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 12; offset < file.length; ) {
+    const size = view.getUint32(offset + 4, true);
+    found.push({ type: fourCC(file, offset), data: file.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return found;
+};
+
+const muxed = async (frames: Uint8Array<ArrayBuffer>[], loop: boolean) => {
+  const encoder = createClipEncoder("webp", { width: 320, height: 180, fps: 8, loop });
+  for (const frame of frames) await encoder.addFrame(fakeCanvas(frame));
+  const blob = await encoder.finish();
+  expect(blob.type).toBe("image/webp");
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+describe("animated WebP", () => {
+  const VP8 = riffChunk("VP8 ", [1, 2, 3]);
+  const VP8L = riffChunk("VP8L", [4, 5, 6, 7]);
+  const ALPH = riffChunk("ALPH", [9]);
+  const VP8X = riffChunk("VP8X", [0x10, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+  it("muxes each still frame into an ANMF chunk", async () => {
+    const found = chunks(await muxed([stillWebp(VP8), stillWebp(VP8)], true));
+    expect(found.map((c) => c.type)).toEqual(["VP8X", "ANIM", "ANMF", "ANMF"]);
+
+    const vp8x = found[0].data;
+    expect(vp8x[0]).toBe(0x02);
+    expect(uint24(vp8x, 4)).toBe(319);
+    expect(uint24(vp8x, 7)).toBe(179);
+
+    const anim = new DataView(found[1].data.buffer, found[1].data.byteOffset, 6);
+    expect(anim.getUint32(0, true)).toBe(0xffffffff);
+    expect(anim.getUint16(4, true)).toBe(0);
+
+    const frame = found[2].data;
+    expect([uint24(frame, 0), uint24(frame, 3)]).toEqual([0, 0]);
+    expect([uint24(frame, 6), uint24(frame, 9)]).toEqual([319, 179]);
+    expect(uint24(frame, 12)).toBe(125);
+    expect(frame[15]).toBe(0x02);
+    // The frame's image chunk, padding included
+    expect(frame.subarray(16)).toEqual(new Uint8Array(VP8));
+  });
+
+  it("plays once when not looping", async () => {
+    const found = chunks(await muxed([stillWebp(VP8)], false));
+    expect(new DataView(found[1].data.buffer, found[1].data.byteOffset, 6).getUint16(4, true)).toBe(1);
+  });
+
+  it("keeps alpha and lossless chunks and flags the alpha", async () => {
+    const found = chunks(await muxed([stillWebp(VP8X, ALPH, VP8), stillWebp(VP8L)], true));
+    expect(found[0].data[0]).toBe(0x12);
+    expect(found[2].data.subarray(16)).toEqual(new Uint8Array([...ALPH, ...VP8]));
+    expect(found[3].data.subarray(16)).toEqual(new Uint8Array(VP8L));
+  });
+
+  it("rejects frames that aren't WebP", async () => {
+    const encoder = createClipEncoder("webp", { width: 2, height: 2, fps: 1, loop: true });
+    await expect(encoder.addFrame(fakeCanvas(new Uint8Array(encode("not a webp image"))))).rejects.toThrow(
+      "Not a WebP image"
+    );
+  });
+});
@@ -0,0 +1,261 @@
+// Encoders for short animated clips. Frames are fed in one at a time as
+// canvases of the output size, so long clips never sit in memory uncompressed.
+
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import { getSupportedFormats } from "./imageFormats";
+import { canvasToBlob } from "./videoFrames";
+
+export type ClipFormat = "gif" | "webp" | "webm";
+
+export interface ClipEncoder {
+  addFrame: (canvas: HTMLCanvasElement) => Promise<void>;
+  finish: () => Promise<Blob>;
+  // Gives up on an unfinished clip, freeing whatever the encoder holds
+  abort: () => void;
+}
+
+export interface ClipOptions {
+  width: number;
+  height: number;
+  fps: number;
+  loop: boolean;
+}
+
+export const CLIP_FORMATS: { id: ClipFormat; label: string; extension: string }[] = [
+  { id: "gif", label: "Animated GIF", extension: "gif" },
+  { id: "webp", label: "Animated WebP", extension: "webp" },
+  { id: "webm", label: "WebM video", extension: "webm" },
+];
+
+const webmMimeType = () =>
+  ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  );
+
+export function getSupportedClipFormats(): ClipFormat[] {
+  const formats: ClipFormat[] = ["gif"];
+  if (getSupportedFormats().some((format) => format.id === "webp")) formats.push("webp");
+  if (
+    typeof MediaRecorder !== "undefined" &&
+    "captureStream" in HTMLCanvasElement.prototype &&
+    webmMimeType()
+  ) {
+    formats.push("webm");
+  }
+  return formats;
+}
+
+function createGifEncoder({ fps, loop }: ClipOptions): ClipEncoder {
+  const gif = GIFEncoder();
+  const delay = Math.round(1000 / fps);
+  return {
+    addFrame: async (canvas) => {
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Could not get canvas context");
+      const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      // A palette per frame keeps colours faithful when the scene changes
+      const palette = quantize(data, 256);
+      gif.writeFrame(applyPalette(data, palette), width, height, {
+        palette,
+        delay,
+        repeat: loop ? 0 : -1,
+      });
+    },
+    finish: async () => {
+      gif.finish();
+      return new Blob([gif.bytes()], { type: "image/gif" });
+    },
+    abort: () => {},
+  };
+}
+
+// --- Animated WebP -------------------------------------------------------
+// The browser can only encode still WebP images, so each frame is encoded on
+// its own and the image chunks are muxed into an animated RIFF container.
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const writeUint24 = (view: DataView, offset: number, value: number) => {
+  view.setUint8(offset, value & 0xff);
+  view.setUint8(offset + 1, (value >> 8) & 0xff);
+  view.setUint8(offset + 2, (value >> 16) & 0xff);
+};
+
+const chunk = (type: string, payload: Uint8Array) => {
+  const padded = payload.length + (payload.length & 1);
+  const bytes = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) bytes[i] = type.charCodeAt(i);
+  new DataView(bytes.buffer).setUint32(4, payload.length, true);
+  bytes.set(payload, 8);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Pull the ALPH / VP8 / VP8L chunks (headers included) out of a still WebP file
+function extractImageChunks(file: Uint8Array): { data: Uint8Array; hasAlpha: boolean } {
+  if (fourCC(file, 0) !== "RIFF" || fourCC(file, 8) !== "WEBP") {
+    throw new Error("Not a WebP image");
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const parts: Uint8Array[] = [];
+  let hasAlpha = false;
+  let offset = 12;
+  while (offset + 8 <= file.length) {
+    const type = fourCC(file, offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (type === "ALPH" || type === "VP8 " || type === "VP8L") {
+      parts.push(file.subarray(offset, Math.min(end, file.length)));
+      if (type !== "VP8 ") hasAlpha = true;
+    }
+    offset = end;
+  }
+  return { data: concat(parts), hasAlpha };
+}
+
+function createWebpEncoder({ width, height, fps, loop }: ClipOptions): ClipEncoder {
+  const frames: Uint8Array[] = [];
+  let hasAlpha = false;
+  const duration = Math.round(1000 / fps);
+
+  return {
+    addFrame: async (canvas) => {
+      const blob = await canvasToBlob(canvas, "image/webp", 0.8);
+      const image = extractImageChunks(new Uint8Array(await blob.arrayBuffer()));
+      hasAlpha ||= image.hasAlpha;
+
+      const header = new Uint8Array(16);
+      const view = new DataView(header.buffer);
+      writeUint24(view, 0, 0); // x offset / 2
+      writeUint24(view, 3, 0); // y offset / 2
+      writeUint24(view, 6, width - 1);
+      writeUint24(view, 9, height - 1);
+      writeUint24(view, 12, duration);
+      view.setUint8(15, 0x02); // don't blend with the previous frame
+      frames.push(chunk("ANMF", concat([header, image.data])));
+    },
+    finish: async () => {
+      const vp8x = new Uint8Array(10);
+      const vp8xView = new DataView(vp8x.buffer);
+      vp8xView.setUint8(0, 0x02 | (hasAlpha ? 0x10 : 0)); // animation (+ alpha)
+      writeUint24(vp8xView, 4, width - 1);
+      writeUint24(vp8xView, 7, height - 1);
+
+      const anim = new Uint8Array(6);
+      const animView = new DataView(anim.buffer);
+      animView.setUint32(0, 0xffffffff, true); // white background
+      animView.setUint16(4, loop ? 0 : 1, true); // 0 loops forever
+
+      const body = concat([
+        new TextEncoder().encode("WEBP"),
+        chunk("VP8X", vp8x),
+        chunk("ANIM", anim),
+        ...frames,
+      ]);
+      const riff = new Uint8Array(8);
+      riff.set(new TextEncoder().encode("RIFF"));
+      new DataView(riff.buffer).setUint32(4, body.length, true);
+      return new Blob([concat([riff, body])], { type: "image/webp" });
+    },
+    abort: () => {
+      frames.length = 0;
+    },
+  };
+}
+
+// --- WebM ------------------------------------------------------------------
+// MediaRecorder timestamps frames by wall clock, and producing a frame can take
+// longer than showing it. Each frame is recorded for exactly its duration and
+// the recorder is paused in between, which leaves the waits out of the video.
+
+const WEBM_BITS_PER_PIXEL = 0.15;
+
+function createWebmEncoder({ width, height, fps }: ClipOptions): ClipEncoder {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const mimeType = webmMimeType();
+  // Frame rate 0: frames are only captured when requested
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: Math.round(width * height * fps * WEBM_BITS_PER_PIXEL),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+  const frameDuration = 1000 / fps;
+
+  return {
+    addFrame: async (frame) => {
+      ctx.drawImage(frame, 0, 0, width, height);
+      if (recorder.state === "inactive") {
+        recorder.start();
+      } else {
+        recorder.resume();
+      }
+      track.requestFrame();
+      await new Promise((resolve) => setTimeout(resolve, frameDuration));
+      recorder.pause();
+    },
+    finish: async () => {
+      if (recorder.state !== "inactive") {
+        recorder.stop();
+        await stopped;
+      }
+      stream.getTracks().forEach((t) => t.stop());
+      return new Blob(chunks, { type: mimeType ?? "video/webm" });
+    },
+    abort: () => {
+      if (recorder.state !== "inactive") recorder.stop();
+      stream.getTracks().forEach((t) => t.stop());
+      chunks.length = 0;
+    },
+  };
+}
+
+export function createClipEncoder(format: ClipFormat, options: ClipOptions): ClipEncoder {
+  switch (format) {
+    case "gif":
+      return createGifEncoder(options);
+    case "webp":
+      return createWebpEncoder(options);
+    case "webm":
+      return createWebmEncoder(options);
+  }
+}
+
+// Rough output size, extrapolated from a single encoded sample frame (or the
+// target bitrate for WebM)
+export async function estimateClipSize(
+  format: ClipFormat,
+  options: ClipOptions,
+  sample: HTMLCanvasElement,
+  frameCount: number
+): Promise<number> {
+  if (format === "webm") {
+    return (options.width * options.height * WEBM_BITS_PER_PIXEL * frameCount) / 8;
+  }
+  const encoder = createClipEncoder(format, options);
+  await encoder.addFrame(sample);
+  const blob = await encoder.finish();
+  return blob.size * frameCount;
+}
@@ -0,0 +1,26 @@
+// Clipboard helpers. Browsers only take images in PNG form through the async
+// Clipboard API.
+
+import { canvasToBlob } from "./videoFrames";
+
+export const canCopyImages = () =>
+  typeof ClipboardItem !== "undefined" && typeof navigator.clipboard?.write === "function";
+
+export async function copyCanvasToClipboard(canvas: HTMLCanvasElement): Promise<void> {
+  if (!canCopyImages()) throw new Error("Copying images is not supported in this browser");
+  // Handing over the promise (rather than awaiting it first) keeps Safari
+  // from rejecting the write for being outside the click handler
+  await navigator.clipboard.write([new ClipboardItem({ "image/png": canvasToBlob(canvas, "image/png") })]);
+}
+
+// Files pasted with Ctrl/Cmd+V, e.g. a screenshot or a file copied in the file manager
+export const pastedFiles = (e: ClipboardEvent) => Array.from(e.clipboardData?.files ?? []);
+
+export function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,75 @@
+// Lays captured frames out on a single canvas as a contact sheet / storyboard
+
+export interface SheetFrame {
+  canvas: HTMLCanvasElement;
+  caption: string | null;
+}
+
+export interface SheetLayout {
+  columns: number;
+  tileWidth: number;
+  margin: number;
+  title: string | null;
+  subtitle: string | null;
+}
+
+const FONT = "system-ui, -apple-system, 'Segoe UI', sans-serif";
+
+export function renderContactSheet(frames: SheetFrame[], layout: SheetLayout): HTMLCanvasElement {
+  const { tileWidth, margin, title, subtitle } = layout;
+  const columns = Math.max(1, Math.min(layout.columns, frames.length));
+  const rows = Math.ceil(frames.length / columns);
+  const first = frames[0]?.canvas;
+  const tileHeight = first ? Math.round((tileWidth * first.height) / (first.width || 1)) : 0;
+
+  const spacing = Math.max(4, Math.round(margin / 2));
+  const captionSize = Math.min(24, Math.max(12, Math.round(tileWidth * 0.07)));
+  const captionHeight = frames.some((f) => f.caption) ? Math.round(captionSize * 1.6) : 0;
+  const titleSize = Math.min(40, Math.max(18, Math.round(tileWidth * 0.12)));
+  const subtitleSize = Math.round(titleSize * 0.6);
+  const headerHeight =
+    (title ? Math.round(titleSize * 1.3) : 0) +
+    (subtitle ? Math.round(subtitleSize * 1.5) : 0) +
+    (title || subtitle ? spacing : 0);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = margin * 2 + columns * tileWidth + (columns - 1) * spacing;
+  canvas.height =
+    margin * 2 + headerHeight + rows * (tileHeight + captionHeight) + Math.max(0, rows - 1) * spacing;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = "#111111";
+  ctx.textBaseline = "top";
+
+  let y = margin;
+  if (title) {
+    ctx.font = `600 ${titleSize}px ${FONT}`;
+    ctx.fillText(title, margin, y, canvas.width - margin * 2);
+    y += Math.round(titleSize * 1.3);
+  }
+  if (subtitle) {
+    ctx.font = `${subtitleSize}px ${FONT}`;
+    ctx.fillStyle = "#555555";
+    ctx.fillText(subtitle, margin, y, canvas.width - margin * 2);
+    ctx.fillStyle = "#111111";
+    y += Math.round(subtitleSize * 1.5);
+  }
+  if (title || subtitle) y += spacing;
+
+  ctx.font = `${captionSize}px ui-monospace, SFMono-Regular, Menlo, monospace`;
+  ctx.textAlign = "center";
+  frames.forEach((frame, i) => {
+    const x = margin + (i % columns) * (tileWidth + spacing);
+    const top = y + Math.floor(i / columns) * (tileHeight + captionHeight + spacing);
+    ctx.drawImage(frame.canvas, x, top, tileWidth, tileHeight);
+    if (frame.caption) {
+      ctx.fillText(frame.caption, x + tileWidth / 2, top + tileHeight + Math.round(captionSize * 0.3), tileWidth);
+    }
+  });
+
+  return canvas;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { attachImages, detachImages, pruneImages, referencedImages } from "./documentImages";
+
+const FRAME = "data:image/png;base64,AAAA";
+const LOGO = "blob:http://localhost/logo";
+
+const document = () => ({
+  objects: [
+    { type: "Image", imageId: "frame", src: FRAME },
+    { type: "Rect" },
+    { type: "Group", objects: [{ type: "Image", imageId: "logo", src: LOGO }] },
+  ],
+});
+
+describe("document images", () => {
+  it("keeps image sources out of history entries", () => {
+    const entry = JSON.stringify(detachImages(document()));
+    expect(entry).not.toContain(FRAME);
+    expect(entry).not.toContain(LOGO);
+    expect(referencedImages([entry])).toEqual(new Set(["frame", "logo"]));
+  });
+
+  it("resolves the references again, inside groups too", () => {
+    const images = new Map([
+      ["frame", FRAME],
+      ["logo", LOGO],
+    ]);
+    const entry = JSON.stringify(detachImages(document()));
+    expect(attachImages(JSON.parse(entry), images)).toEqual(document());
+  });
+
+  it("leaves a reference it can't resolve alone", () => {
+    const entry = JSON.parse(JSON.stringify(detachImages(document())));
+    attachImages(entry, new Map([["frame", FRAME]]));
+    expect(entry.objects[2].objects[0].src).toBe("framegrabber-image:logo");
+  });
+
+  it("drops images no history entry uses", () => {
+    const images = new Map([
+      ["frame", FRAME],
+      ["logo", LOGO],
+    ]);
+    const frameOnly = JSON.stringify(detachImages({ objects: [document().objects[0]] }));
+    pruneImages(images, [frameOnly, frameOnly]);
+    expect([...images.keys()]).toEqual(["frame"]);
+  });
+});
@@ -0,0 +1,83 @@
+// Images of the editor document (the frame and pasted overlays) are kept once
+// by id instead of being inlined into every undo history entry. A 4K frame
+// is megabytes as a data URL; history entries only carry a reference to it.
+
+import { FabricImage, FabricObject, Group } from "fabric";
+import type { Canvas } from "fabric";
+
+declare module "fabric" {
+  interface FabricObject {
+    // Key of the image's source in the document's image table
+    imageId?: string;
+  }
+  interface SerializedObjectProps {
+    imageId?: string;
+  }
+}
+
+FabricObject.customProperties = [...FabricObject.customProperties, "imageId"];
+
+// Image sources by id
+export type DocumentImages = Map<string, string>;
+
+const REF_PREFIX = "framegrabber-image:";
+const REF = /"framegrabber-image:([^"]+)"/g;
+
+// Just the parts of serialized canvas JSON that matter here
+interface SerializedNode {
+  src?: string;
+  imageId?: string;
+  objects?: SerializedNode[];
+}
+
+const eachNode = (nodes: SerializedNode[] | undefined, visit: (node: SerializedNode) => void) =>
+  nodes?.forEach((node) => {
+    visit(node);
+    eachNode(node.objects, visit);
+  });
+
+// Give every image on the canvas an id, adding new ones to the table
+export function registerImages(canvas: Canvas, images: DocumentImages) {
+  const visit = (objects: FabricObject[]) =>
+    objects.forEach((obj) => {
+      if (obj instanceof FabricImage) {
+        if (!obj.imageId || !images.has(obj.imageId)) {
+          obj.imageId ??= crypto.randomUUID();
+          images.set(obj.imageId, obj.getSrc());
+        }
+      } else if (obj instanceof Group) {
+        visit(obj.getObjects());
+      }
+    });
+  visit(canvas.getObjects());
+}
+
+// Swap image sources in canvas JSON for references to the table
+export function detachImages(json: { objects?: SerializedNode[] }) {
+  eachNode(json.objects, (node) => {
+    if (node.imageId && node.src !== undefined) node.src = `${REF_PREFIX}${node.imageId}`;
+  });
+  return json;
+}
+
+// And back again, before the JSON is loaded
+export function attachImages(json: { objects?: SerializedNode[] }, images: DocumentImages) {
+  eachNode(json.objects, (node) => {
+    if (node.src?.startsWith(REF_PREFIX)) {
+      node.src = images.get(node.src.slice(REF_PREFIX.length)) ?? node.src;
+    }
+  });
+  return json;
+}
+
+// Ids referenced by any of the history entries
+export const referencedImages = (history: string[]) =>
+  new Set(history.flatMap((entry) => [...entry.matchAll(REF)].map((match) => match[1])));
+
+// Drop the images no history entry uses any more
+export function pruneImages(images: DocumentImages, history: string[]) {
+  const used = referencedImages(history);
+  for (const id of images.keys()) {
+    if (!used.has(id)) images.delete(id);
+  }
+}
@@ -0,0 +1,28 @@
+import { zipSync } from "fflate";
+
+export interface NamedBlob {
+  name: string;
+  blob: Blob;
+}
+
+// Package files into a ZIP. Images are already compressed, so store them as-is.
+export async function zipFiles(files: NamedBlob[]): Promise<Blob> {
+  const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+  for (const file of files) {
+    entries[file.name] = [new Uint8Array(await file.blob.arrayBuffer()), { level: 0 }];
+  }
+  return new Blob([zipSync(entries)], { type: "application/zip" });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// File name without its extension, for building download names
+export const baseName = (name: string) => name.replace(/\.[^.]+$/, "") || "video";
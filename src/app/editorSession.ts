@@ -0,0 +1,94 @@
+// Autosave of the editor document (undo history, position in it and source
+// metadata) so a reload or closed tab doesn't lose annotation work.
+//
+// History entries are Fabric JSON that reference the document's images by id
+// (see documentImages). Image URLs may be blob: URLs that die with the page, so
+// the images are stored alongside as Blobs.
+
+import { readAsDataUrl } from "./clipboard";
+import { referencedImages } from "./documentImages";
+import type { DocumentImages } from "./documentImages";
+import type { FrameMetadata } from "./imageMetadata";
+import { deleteRecord, getRecord, putRecord } from "./storage";
+
+export interface EditorSession {
+  history: string[];
+  historyIndex: number;
+  images: DocumentImages;
+  metadata: FrameMetadata | null;
+  savedAt: number;
+}
+
+// Sessions saved before images had ids keyed them by index, in an array
+interface StoredSession extends Omit<EditorSession, "images"> {
+  images: Record<string, Blob | null> | (Blob | null)[];
+}
+
+const SESSION_KEY = "current";
+
+// Blobs already read for an image URL, so each image is fetched once and
+// blob: URLs keep working here after the page that made them revokes them
+let imageCache = new Map<string, Blob>();
+
+// An image that can't be read any more (e.g. a revoked blob: URL) shouldn't
+// fail the whole save; only the history entries using it are left out
+async function readImage(src: string): Promise<Blob | null> {
+  const cached = imageCache.get(src);
+  if (cached) return cached;
+  try {
+    return await (await fetch(src)).blob();
+  } catch (err) {
+    console.error("Reading an editor image failed:", err);
+    return null;
+  }
+}
+
+export async function saveEditorSession(session: Omit<EditorSession, "savedAt">): Promise<void> {
+  const ids = [...referencedImages(session.history)];
+  const sources = ids.map((id) => session.images.get(id));
+  const blobs = await Promise.all(sources.map((src) => (src ? readImage(src) : null)));
+  imageCache = new Map();
+  const images: Record<string, Blob | null> = {};
+  ids.forEach((id, i) => {
+    const src = sources[i];
+    const blob = blobs[i];
+    if (src && blob) imageCache.set(src, blob);
+    images[id] = blob;
+  });
+
+  const usable = session.history.map((entry) => [...referencedImages([entry])].every((id) => images[id]));
+  const kept = session.history.filter((_, i) => usable[i]);
+  if (kept.length === 0) {
+    await deleteRecord("editorSession", SESSION_KEY);
+    return;
+  }
+  // Stay on the current entry, or the closest one before it that was kept
+  const historyIndex = Math.max(0, usable.slice(0, session.historyIndex + 1).filter(Boolean).length - 1);
+
+  const stored: StoredSession = { ...session, history: kept, historyIndex, images, savedAt: Date.now() };
+  await putRecord("editorSession", SESSION_KEY, stored);
+}
+
+export async function loadEditorSession(): Promise<EditorSession | null> {
+  const stored = await getRecord<StoredSession>("editorSession", SESSION_KEY);
+  if (!stored || stored.history.length === 0) return null;
+
+  const images: DocumentImages = new Map();
+  await Promise.all(
+    Object.entries(stored.images).map(async ([id, blob]) => {
+      if (blob) images.set(id, await readAsDataUrl(blob));
+    })
+  );
+  return {
+    history: stored.history,
+    historyIndex: Math.min(stored.historyIndex, stored.history.length - 1),
+    images,
+    metadata: stored.metadata,
+    savedAt: stored.savedAt,
+  };
+}
+
+export async function discardEditorSession(): Promise<void> {
+  imageCache.clear();
+  await deleteRecord("editorSession", SESSION_KEY);
+}
@@ -0,0 +1,134 @@
+// Fallback decoding through ffmpeg.wasm for sources the browser can't play
+// (MKV, HEVC, ProRes, AVI, ...). The core is copied into public/ffmpeg by the
+// postinstall script and only fetched the first time it is needed.
+
+import type { FFmpeg } from "@ffmpeg/ffmpeg";
+
+const CORE_BASE_URL = "/ffmpeg";
+const INPUT_DIR = "/input";
+
+export interface ProbeResult {
+  duration: number;
+  fps: number | null;
+  width: number;
+  height: number;
+}
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+let mountedFile: File | null = null;
+
+// Load the ffmpeg.wasm core once. onProgress reports the WASM download (0..1).
+export function loadFFmpeg(onProgress?: (progress: number) => void): Promise<FFmpeg> {
+  if (!ffmpegPromise) {
+    ffmpegPromise = (async () => {
+      const [{ FFmpeg }, { toBlobURL }] = await Promise.all([
+        import("@ffmpeg/ffmpeg"),
+        import("@ffmpeg/util"),
+      ]);
+      const ffmpeg = new FFmpeg();
+      const coreURL = await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.js`, "text/javascript");
+      const wasmURL = await toBlobURL(
+        `${CORE_BASE_URL}/ffmpeg-core.wasm`,
+        "application/wasm",
+        true,
+        ({ received, total }) => {
+          if (total > 0) onProgress?.(received / total);
+        }
+      );
+      await ffmpeg.load({ coreURL, wasmURL });
+      return ffmpeg;
+    })().catch((err) => {
+      // Allow a retry on the next call
+      ffmpegPromise = null;
+      throw err;
+    });
+  }
+  return ffmpegPromise;
+}
+
+// Expose the file to ffmpeg without copying it into memory
+async function mountFile(ffmpeg: FFmpeg, file: File): Promise<string> {
+  if (mountedFile !== file) {
+    const { FFFSType } = await import("@ffmpeg/ffmpeg");
+    if (mountedFile) {
+      await ffmpeg.unmount(INPUT_DIR);
+    } else {
+      await ffmpeg.createDir(INPUT_DIR);
+    }
+    await ffmpeg.mount(FFFSType.WORKERFS, { files: [file] }, INPUT_DIR);
+    mountedFile = file;
+  }
+  return `${INPUT_DIR}/${file.name}`;
+}
+
+// Run ffmpeg and collect everything it logs
+async function execWithLogs(ffmpeg: FFmpeg, args: string[]): Promise<{ code: number; logs: string[] }> {
+  const logs: string[] = [];
+  const handleLog = ({ message }: { message: string }) => {
+    logs.push(message);
+  };
+  ffmpeg.on("log", handleLog);
+  try {
+    const code = await ffmpeg.exec(args);
+    return { code, logs };
+  } finally {
+    ffmpeg.off("log", handleLog);
+  }
+}
+
+export async function probeVideo(file: File, onProgress?: (progress: number) => void): Promise<ProbeResult> {
+  const ffmpeg = await loadFFmpeg(onProgress);
+  const input = await mountFile(ffmpeg, file);
+
+  // With no output ffmpeg exits with an error, but it has printed the stream info by then
+  const { logs } = await execWithLogs(ffmpeg, ["-hide_banner", "-i", input]);
+  const output = logs.join("\n");
+
+  const durationMatch = output.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!durationMatch) throw new Error("Could not read video duration");
+  const duration =
+    Number(durationMatch[1]) * 3600 + Number(durationMatch[2]) * 60 + Number(durationMatch[3]);
+
+  const videoLine = logs.find((line) => /Stream #.*Video:/.test(line)) ?? "";
+  const sizeMatch = videoLine.match(/\b(\d{2,5})x(\d{2,5})\b/);
+  const fpsMatch = videoLine.match(/(\d+(?:\.\d+)?)\s*fps/);
+
+  return {
+    duration,
+    fps: fpsMatch ? Number(fpsMatch[1]) : null,
+    width: sizeMatch ? Number(sizeMatch[1]) : 0,
+    height: sizeMatch ? Number(sizeMatch[2]) : 0,
+  };
+}
+
+// Decode the single frame at `time` and draw it onto a canvas
+export async function decodeFrame(file: File, time: number): Promise<HTMLCanvasElement> {
+  const ffmpeg = await loadFFmpeg();
+  const input = await mountFile(ffmpeg, file);
+  const output = "frame.png";
+
+  // Seeking before -i is fast and, since we decode, frame-accurate
+  const { code } = await execWithLogs(ffmpeg, [
+    "-ss", time.toFixed(6),
+    "-i", input,
+    "-frames:v", "1",
+    "-c:v", "png",
+    "-y", output,
+  ]);
+  if (code !== 0) throw new Error(`ffmpeg exited with code ${code}`);
+
+  const data = await ffmpeg.readFile(output);
+  await ffmpeg.deleteFile(output);
+  if (typeof data === "string") throw new Error("Unexpected ffmpeg output");
+
+  // Copied out of ffmpeg's memory into a plain buffer a Blob can take
+  const bitmap = await createImageBitmap(new Blob([new Uint8Array(data)], { type: "image/png" }));
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { differenceMap } from "./frameCompare";
+
+const pixels = (...rgb: [number, number, number][]) => new Uint8ClampedArray(rgb.flatMap((p) => [...p, 128]));
+
+describe("differenceMap", () => {
+  it("marks pixels that differ by at least the threshold, from yellow to red", () => {
+    const first = pixels([100, 100, 100], [0, 0, 0], [0, 0, 0], [10, 10, 10]);
+    const second = pixels([100, 100, 100], [0, 40, 0], [255, 0, 0], [10, 10, 49]);
+    expect(differenceMap(first, second, 40)).toBe(0.5);
+    expect([...first]).toEqual([
+      35, 35, 35, 255,
+      255, 220, 0, 255,
+      255, 0, 0, 255,
+      4, 4, 4, 255,
+    ]);
+  });
+
+  it("counts any difference at a zero threshold, but not identical pixels", () => {
+    const first = pixels([5, 5, 5], [5, 5, 5]);
+    expect(differenceMap(first, pixels([5, 5, 5], [5, 6, 5]), 0)).toBe(0.5);
+    expect([...first.subarray(4, 8)]).toEqual([255, 219, 0, 255]);
+  });
+});
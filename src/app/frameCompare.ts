@@ -0,0 +1,122 @@
+// Composes two frames into a single comparison image. Frame B is scaled to
+// frame A's size for every mode that overlays them.
+
+export type CompareMode = "side-by-side" | "wipe" | "onion" | "difference";
+
+export const COMPARE_MODES: { id: CompareMode; label: string }[] = [
+  { id: "side-by-side", label: "Side by side" },
+  { id: "wipe", label: "Wipe" },
+  { id: "onion", label: "Onion skin" },
+  { id: "difference", label: "Difference" },
+];
+
+export interface CompareOptions {
+  mode: CompareMode;
+  // Wipe position across the frame, 0..1 (A on the left)
+  wipe: number;
+  // Opacity of B over A in onion-skin mode, 0..1
+  opacity: number;
+  // Channel difference (0..255) below which pixels count as unchanged
+  threshold: number;
+}
+
+export interface Comparison {
+  canvas: HTMLCanvasElement;
+  // Share of pixels at or above the threshold, difference mode only
+  changed: number | null;
+}
+
+const GAP = 8;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+function sideBySide(a: HTMLCanvasElement, b: HTMLCanvasElement) {
+  // Same height for both, B keeps its aspect ratio
+  const bWidth = Math.round((b.width * a.height) / (b.height || 1));
+  const { canvas, ctx } = createCanvas(a.width + GAP + bWidth, a.height);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(a, 0, 0);
+  ctx.drawImage(b, a.width + GAP, 0, bWidth, a.height);
+  return canvas;
+}
+
+function wipe(a: HTMLCanvasElement, b: HTMLCanvasElement, position: number) {
+  const { canvas, ctx } = createCanvas(a.width, a.height);
+  const split = Math.round(a.width * Math.min(1, Math.max(0, position)));
+  ctx.drawImage(b, 0, 0, a.width, a.height);
+  ctx.drawImage(a, 0, 0, split, a.height, 0, 0, split, a.height);
+
+  const lineWidth = Math.max(2, Math.round(a.width / 640));
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(split - lineWidth / 2, 0, lineWidth, a.height);
+  return canvas;
+}
+
+function onion(a: HTMLCanvasElement, b: HTMLCanvasElement, opacity: number) {
+  const { canvas, ctx } = createCanvas(a.width, a.height);
+  ctx.drawImage(a, 0, 0);
+  ctx.globalAlpha = Math.min(1, Math.max(0, opacity));
+  ctx.drawImage(b, 0, 0, a.width, a.height);
+  return canvas;
+}
+
+// Turn RGBA pixels of A into a heatmap of where they differ from B, in place.
+// Unchanged pixels are shown as a dimmed grey copy of A for orientation,
+// changed ones from yellow (at the threshold) to red (maximum difference).
+// Returns the fraction of pixels that changed.
+export function differenceMap(first: Uint8ClampedArray, second: Uint8ClampedArray, threshold: number) {
+  let changed = 0;
+  const range = Math.max(1, 255 - threshold);
+  for (let i = 0; i < first.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(first[i] - second[i]),
+      Math.abs(first[i + 1] - second[i + 1]),
+      Math.abs(first[i + 2] - second[i + 2])
+    );
+    if (diff >= threshold && diff > 0) {
+      changed++;
+      const heat = (diff - threshold) / range;
+      first[i] = 255;
+      first[i + 1] = Math.round(220 * (1 - heat));
+      first[i + 2] = 0;
+    } else {
+      const grey = Math.round((first[i] * 0.299 + first[i + 1] * 0.587 + first[i + 2] * 0.114) * 0.35);
+      first[i] = first[i + 1] = first[i + 2] = grey;
+    }
+    first[i + 3] = 255;
+  }
+  return changed / (first.length / 4);
+}
+
+function difference(a: HTMLCanvasElement, b: HTMLCanvasElement, threshold: number) {
+  const { canvas, ctx } = createCanvas(a.width, a.height);
+  ctx.drawImage(b, 0, 0, a.width, a.height);
+  const second = ctx.getImageData(0, 0, a.width, a.height).data;
+  ctx.clearRect(0, 0, a.width, a.height);
+  ctx.drawImage(a, 0, 0);
+  const output = ctx.getImageData(0, 0, a.width, a.height);
+  const changed = differenceMap(output.data, second, threshold);
+  ctx.putImageData(output, 0, 0);
+  return { canvas, changed };
+}
+
+export function composeComparison(a: HTMLCanvasElement, b: HTMLCanvasElement, options: CompareOptions): Comparison {
+  switch (options.mode) {
+    case "side-by-side":
+      return { canvas: sideBySide(a, b), changed: null };
+    case "wipe":
+      return { canvas: wipe(a, b, options.wipe), changed: null };
+    case "onion":
+      return { canvas: onion(a, b, options.opacity), changed: null };
+    case "difference":
+      return difference(a, b, options.threshold);
+  }
+}
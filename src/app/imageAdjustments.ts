@@ -0,0 +1,103 @@
+// Colour adjustments for the editor's base frame, applied as Fabric image
+// filters. The original pixels stay untouched underneath, so adjustments can
+// be changed or reset at any time and annotations are never affected.
+
+import { FabricObject, filters } from "fabric";
+import type { FabricImage } from "fabric";
+
+export type Tone = "none" | "grayscale" | "sepia";
+
+export interface ImageAdjustments {
+  // -1..1, 0 leaves the image as it is
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // Stops, each one doubles (or halves) the light
+  exposure: number;
+  // 1 leaves mid-tones as they are, higher values lift them
+  gamma: number;
+  // -1..1 of a full turn
+  hue: number;
+  // 0..1
+  sharpen: number;
+  tone: Tone;
+}
+
+declare module "fabric" {
+  interface FabricObject {
+    // The settings behind a base image's filters, for the adjustments panel
+    imageAdjustments?: ImageAdjustments;
+  }
+  interface SerializedObjectProps {
+    imageAdjustments?: ImageAdjustments;
+  }
+}
+
+FabricObject.customProperties = [...FabricObject.customProperties, "imageAdjustments"];
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  exposure: 0,
+  gamma: 1,
+  hue: 0,
+  sharpen: 0,
+  tone: "none",
+};
+
+export const ADJUSTMENT_SLIDERS: {
+  key: Exclude<keyof ImageAdjustments, "tone">;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: "brightness", label: "Brightness", min: -1, max: 1, step: 0.01 },
+  { key: "contrast", label: "Contrast", min: -1, max: 1, step: 0.01 },
+  { key: "saturation", label: "Saturation", min: -1, max: 1, step: 0.01 },
+  { key: "exposure", label: "Exposure", min: -2, max: 2, step: 0.05 },
+  { key: "gamma", label: "Gamma", min: 0.2, max: 2.2, step: 0.01 },
+  { key: "hue", label: "Hue", min: -1, max: 1, step: 0.01 },
+  { key: "sharpen", label: "Sharpen", min: 0, max: 1, step: 0.01 },
+];
+
+export const TONES: { id: Tone; label: string }[] = [
+  { id: "none", label: "Color" },
+  { id: "grayscale", label: "Grayscale" },
+  { id: "sepia", label: "Sepia" },
+];
+
+export const isNeutral = (adjustments: ImageAdjustments) =>
+  (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[]).every(
+    (key) => adjustments[key] === DEFAULT_ADJUSTMENTS[key]
+  );
+
+// Only filters that change something, in a fixed order: light first, then
+// colour, then detail, then tone
+function filtersFor(adjustments: ImageAdjustments) {
+  const { brightness, contrast, saturation, exposure, gamma, hue, sharpen, tone } = adjustments;
+  const list = [];
+  if (exposure !== 0) {
+    const k = Math.pow(2, exposure);
+    list.push(new filters.ColorMatrix({ matrix: [k, 0, 0, 0, 0, 0, k, 0, 0, 0, 0, 0, k, 0, 0, 0, 0, 0, 1, 0] }));
+  }
+  if (brightness !== 0) list.push(new filters.Brightness({ brightness }));
+  if (contrast !== 0) list.push(new filters.Contrast({ contrast }));
+  if (gamma !== 1) list.push(new filters.Gamma({ gamma: [gamma, gamma, gamma] }));
+  if (saturation !== 0) list.push(new filters.Saturation({ saturation }));
+  if (hue !== 0) list.push(new filters.HueRotation({ rotation: hue }));
+  if (sharpen !== 0) {
+    const a = sharpen;
+    list.push(new filters.Convolute({ matrix: [0, -a, 0, -a, 1 + 4 * a, -a, 0, -a, 0] }));
+  }
+  if (tone === "grayscale") list.push(new filters.Grayscale());
+  if (tone === "sepia") list.push(new filters.Sepia());
+  return list;
+}
+
+export function applyAdjustments(image: FabricImage, adjustments: ImageAdjustments) {
+  image.imageAdjustments = isNeutral(adjustments) ? undefined : adjustments;
+  image.filters = filtersFor(adjustments);
+  image.applyFilters();
+}
@@ -0,0 +1,79 @@
+// Pixel-level helpers for comparing and scoring frames
+
+const HISTOGRAM_BINS = 16;
+
+// Draw a source into a small canvas and read its pixels back
+export function downsample(source: CanvasImageSource, width: number, height: number): ImageData {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+// Normalised per-channel RGB histogram
+export function colorHistogram(image: ImageData): Float32Array {
+  const hist = new Float32Array(HISTOGRAM_BINS * 3);
+  const { data } = image;
+  const pixels = data.length / 4;
+  const shift = 8 - Math.log2(HISTOGRAM_BINS);
+
+  for (let i = 0; i < data.length; i += 4) {
+    hist[data[i] >> shift]++;
+    hist[HISTOGRAM_BINS + (data[i + 1] >> shift)]++;
+    hist[HISTOGRAM_BINS * 2 + (data[i + 2] >> shift)]++;
+  }
+  for (let i = 0; i < hist.length; i++) hist[i] /= pixels;
+  return hist;
+}
+
+// 0 when the histograms match, 1 when they share nothing
+export function histogramDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 6;
+}
+
+// Mean absolute luminance difference, scaled to 0..1
+export function pixelDifference(a: ImageData, b: ImageData): number {
+  const da = a.data;
+  const db = b.data;
+  let sum = 0;
+  for (let i = 0; i < da.length; i += 4) {
+    const la = 0.299 * da[i] + 0.587 * da[i + 1] + 0.114 * da[i + 2];
+    const lb = 0.299 * db[i] + 0.587 * db[i + 1] + 0.114 * db[i + 2];
+    sum += Math.abs(la - lb);
+  }
+  return sum / (da.length / 4) / 255;
+}
+
+// Variance of the Laplacian over the luminance channel. Higher means more
+// edge detail, i.e. a sharper (less motion-blurred) frame.
+export function laplacianVariance(image: ImageData): number {
+  const { data, width, height } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
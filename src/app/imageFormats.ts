@@ -0,0 +1,63 @@
+import { embedMetadata } from "./imageMetadata";
+import type { FrameMetadata } from "./imageMetadata";
+import { canvasToBlob } from "./videoFrames";
+
+export type ImageFormatId = "jpeg" | "png" | "webp" | "avif";
+
+export interface ImageFormat {
+  id: ImageFormatId;
+  label: string;
+  mime: string;
+  extension: string;
+  lossy: boolean;
+}
+
+export interface ExportSettings {
+  format: ImageFormatId;
+  quality: number; // 0..1, ignored for lossless formats
+}
+
+export const IMAGE_FORMATS: ImageFormat[] = [
+  { id: "jpeg", label: "JPEG", mime: "image/jpeg", extension: "jpg", lossy: true },
+  { id: "png", label: "PNG (lossless)", mime: "image/png", extension: "png", lossy: false },
+  { id: "webp", label: "WebP", mime: "image/webp", extension: "webp", lossy: true },
+  { id: "avif", label: "AVIF", mime: "image/avif", extension: "avif", lossy: true },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { format: "jpeg", quality: 0.9 };
+
+export const getImageFormat = (id: ImageFormatId) =>
+  IMAGE_FORMATS.find((format) => format.id === id) ?? IMAGE_FORMATS[0];
+
+let supportedFormats: ImageFormat[] | null = null;
+
+// Browsers silently fall back to PNG for types they can't encode, so check
+// what the data URL actually comes back as
+export function getSupportedFormats(): ImageFormat[] {
+  if (supportedFormats) return supportedFormats;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = 1;
+  canvas.height = 1;
+  supportedFormats = IMAGE_FORMATS.filter((format) =>
+    canvas.toDataURL(format.mime).startsWith(`data:${format.mime}`)
+  );
+  return supportedFormats;
+}
+
+// Encode a canvas, tagging JPEG and PNG output with where the frame came from
+export async function encodeCanvas(
+  canvas: HTMLCanvasElement,
+  settings: ExportSettings,
+  metadata?: FrameMetadata | null
+): Promise<Blob> {
+  const format = getImageFormat(settings.format);
+  const blob = await canvasToBlob(canvas, format.mime, format.lossy ? settings.quality : undefined);
+  return metadata ? embedMetadata(blob, metadata) : blob;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
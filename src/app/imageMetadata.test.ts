@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { APP_ID, embedMetadata, frameMetadata } from "./imageMetadata";
+
+const metadata = frameMetadata("café <1>.mp4", 1.5, 25);
+const decoder = new TextDecoder();
+
+// Bitwise CRC-32, independent of the table-driven one under test
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const embed = async (bytes: number[] | Uint8Array, type: string) =>
+  new Uint8Array(await (await embedMetadata(new Blob([new Uint8Array(bytes)], { type }), metadata)).arrayBuffer());
+
+describe("frameMetadata", () => {
+  it("describes the frame in the video's timebase", () => {
+    expect(metadata).toEqual({ sourceName: "café <1>.mp4", time: 1.5, timecode: "00:00:01:12", frame: 37 });
+    expect(frameMetadata("a.mp4", 1, 25, "01:00:00:00").timecode).toBe("01:00:01:00");
+  });
+});
+
+describe("JPEG", () => {
+  const JFIF = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+  const SCAN = [0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9];
+
+  // Marker and payload of every segment up to the start of scan
+  const segments = (jpeg: Uint8Array) => {
+    const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+    const found: { marker: number; payload: Uint8Array }[] = [];
+    let offset = 2;
+    while (jpeg[offset] === 0xff && jpeg[offset + 1] !== 0xda) {
+      const length = view.getUint16(offset + 2);
+      found.push({ marker: jpeg[offset + 1], payload: jpeg.subarray(offset + 4, offset + 2 + length) });
+      offset += 2 + length;
+    }
+    return { found, rest: jpeg.subarray(offset) };
+  };
+
+  // ASCII tags of the first IFD in a little-endian TIFF block
+  const tiffTags = (tiff: Uint8Array) => {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    expect(decoder.decode(tiff.subarray(0, 4))).toBe("II*\0");
+    const ifd = view.getUint32(4, true);
+    const tags = new Map<number, string>();
+    for (let i = 0; i < view.getUint16(ifd, true); i++) {
+      const entry = ifd + 2 + i * 12;
+      expect(view.getUint16(entry + 2, true)).toBe(2);
+      const count = view.getUint32(entry + 4, true);
+      const start = count <= 4 ? entry + 8 : view.getUint32(entry + 8, true);
+      const value = tiff.subarray(start, start + count);
+      expect(value[count - 1]).toBe(0);
+      tags.set(view.getUint16(entry, true), decoder.decode(value.subarray(0, count - 1)));
+    }
+    return tags;
+  };
+
+  it("adds EXIF and XMP segments after the JFIF header and keeps the rest", async () => {
+    const jpeg = await embed([0xff, 0xd8, ...JFIF, ...SCAN], "image/jpeg");
+    const { found, rest } = segments(jpeg);
+
+    expect(found.map((s) => s.marker)).toEqual([0xe0, 0xe1, 0xe1]);
+    expect(found[0].payload).toEqual(new Uint8Array(JFIF.slice(4)));
+    expect(rest).toEqual(new Uint8Array(SCAN));
+
+    const exif = found[1].payload;
+    expect(decoder.decode(exif.subarray(0, 6))).toBe("Exif\0\0");
+    const tags = tiffTags(exif.subarray(6));
+    expect([...tags.keys()]).toEqual([0x010d, 0x010e, 0x0131]);
+    expect(tags.get(0x010d)).toBe(metadata.sourceName);
+    expect(tags.get(0x010e)).toBe("café <1>.mp4 @ 00:00:01:12 (frame 37, 1.500s)");
+    expect(tags.get(0x0131)).toBe(APP_ID);
+
+    const xmp = decoder.decode(found[2].payload);
+    expect(xmp.startsWith("http://ns.adobe.com/xap/1.0/\0<?xpacket")).toBe(true);
+    expect(xmp).toContain("<dc:source>café &#60;1&#62;.mp4</dc:source>");
+    expect(xmp).toContain("<fg:timecode>00:00:01:12</fg:timecode>");
+    expect(xmp).toContain("<fg:frame>37</fg:frame>");
+  });
+
+  it("inserts straight after the start marker when there is no JFIF header", async () => {
+    const jpeg = await embed([0xff, 0xd8, ...SCAN], "image/jpeg");
+    const { found, rest } = segments(jpeg);
+    expect(found.map((s) => s.marker)).toEqual([0xe1, 0xe1]);
+    expect(rest).toEqual(new Uint8Array(SCAN));
+  });
+
+  it("rejects data that isn't a JPEG", async () => {
+    await expect(embed([0x00, 0x01, 0x02], "image/jpeg")).rejects.toThrow("Not a JPEG image");
+  });
+});
+
+describe("PNG", () => {
+  const chunk = (type: string, data: number[]) => {
+    const body = new Uint8Array([...new TextEncoder().encode(type), ...data]);
+    const bytes = new Uint8Array(12 + data.length);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, data.length);
+    bytes.set(body, 4);
+    view.setUint32(8 + data.length, crc32(body));
+    return [...bytes];
+  };
+  const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  const IHDR = chunk("IHDR", [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]);
+  const IDAT = chunk("IDAT", [1, 2, 3]);
+  const IEND = chunk("IEND", []);
+
+  const chunks = (png: Uint8Array) => {
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    const found: { type: string; data: Uint8Array }[] = [];
+    for (let offset = 8; offset < png.length; ) {
+      const length = view.getUint32(offset);
+      const body = png.subarray(offset + 4, offset + 8 + length);
+      expect(view.getUint32(offset + 8 + length)).toBe(crc32(body));
+      found.push({ type: decoder.decode(body.subarray(0, 4)), data: body.subarray(4) });
+      offset += 12 + length;
+    }
+    return found;
+  };
+
+  it("adds text chunks after IHDR with valid CRCs", async () => {
+    const png = await embed([...SIGNATURE, ...IHDR, ...IDAT, ...IEND], "image/png");
+    expect(png.subarray(0, 8)).toEqual(new Uint8Array(SIGNATURE));
+
+    const found = chunks(png);
+    expect(found.map((c) => c.type)).toEqual(["IHDR", "tEXt", "tEXt", "iTXt", "iTXt", "iTXt", "IDAT", "IEND"]);
+    expect(decoder.decode(found[1].data)).toBe(`Software\0${APP_ID}`);
+    expect(decoder.decode(found[2].data)).toBe("Comment\0Frame 37 at 00:00:01:12 (1.500s)");
+    // Keyword, then compression flag and method, empty language and translated keyword
+    expect(decoder.decode(found[3].data)).toBe("Source\0\0\0\0\0café <1>.mp4");
+    expect(decoder.decode(found[5].data)).toMatch(/^XML:com\.adobe\.xmp\0\0\0\0\0<\?xpacket/);
+    expect(found[6].data).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it("rejects data that isn't a PNG", async () => {
+    await expect(embed([0x00, 0x01, 0x02, 0x03], "image/png")).rejects.toThrow("Not a PNG image");
+  });
+});
+
+describe("other formats", () => {
+  it("are passed through untouched", async () => {
+    const blob = new Blob([new Uint8Array([1, 2, 3])], { type: "image/webp" });
+    expect(await embedMetadata(blob, metadata)).toBe(blob);
+  });
+});
@@ -0,0 +1,193 @@
+// Provenance metadata for exported frames: EXIF + XMP in JPEG files and
+// tEXt / iTXt chunks in PNG files. Other formats are passed through untouched.
+
+import { formatTimecode } from "./timecode";
+import { timeToFrame } from "./videoFrames";
+
+export const APP_ID = "FrameGrabber";
+
+export interface FrameMetadata {
+  sourceName: string;
+  time: number;
+  timecode: string;
+  frame: number;
+}
+
+export const frameMetadata = (
+  sourceName: string,
+  time: number,
+  fps: number,
+  startTimecode?: string
+): FrameMetadata => ({
+  sourceName,
+  time,
+  timecode: formatTimecode(time, fps, startTimecode),
+  frame: timeToFrame(time, fps),
+});
+
+const describe = (metadata: FrameMetadata) =>
+  `${metadata.sourceName} @ ${metadata.timecode} (frame ${metadata.frame}, ${metadata.time.toFixed(3)}s)`;
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+function buildXmp(metadata: FrameMetadata): string {
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    ' xmlns:fg="urn:framegrabber:ns:1.0">',
+    `<xmp:CreatorTool>${APP_ID}</xmp:CreatorTool>`,
+    `<dc:source>${escapeXml(metadata.sourceName)}</dc:source>`,
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(describe(metadata))}</rdf:li></rdf:Alt></dc:description>`,
+    `<fg:time>${metadata.time.toFixed(6)}</fg:time>`,
+    `<fg:timecode>${escapeXml(metadata.timecode)}</fg:timecode>`,
+    `<fg:frame>${metadata.frame}</fg:frame>`,
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n");
+}
+
+// --- JPEG ------------------------------------------------------------------
+
+// Little-endian TIFF structure with a single IFD of ASCII tags
+function buildTiff(tags: [number, string][]): Uint8Array {
+  const values = tags.map(([, text]) => concat([encoder.encode(text), new Uint8Array([0])]));
+  const ifdSize = 2 + tags.length * 12 + 4;
+  const dataSize = values.reduce((sum, value) => sum + (value.length > 4 ? value.length : 0), 0);
+  const tiff = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(tiff.buffer);
+
+  tiff.set([0x49, 0x49, 0x2a, 0x00]); // "II*\0"
+  view.setUint32(4, 8, true);
+  view.setUint16(8, tags.length, true);
+
+  let dataOffset = 8 + ifdSize;
+  tags.forEach(([tag], i) => {
+    const entry = 10 + i * 12;
+    const value = values[i];
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, 2, true); // ASCII
+    view.setUint32(entry + 4, value.length, true);
+    if (value.length <= 4) {
+      tiff.set(value, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      tiff.set(value, dataOffset);
+      dataOffset += value.length;
+    }
+  });
+  return tiff;
+}
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const segment = new Uint8Array(4 + payload.length);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  new DataView(segment.buffer).setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+  return segment;
+};
+
+function embedJpeg(jpeg: Uint8Array, metadata: FrameMetadata) {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) throw new Error("Not a JPEG image");
+
+  // Tags must be sorted: DocumentName, ImageDescription, Software
+  const exif = concat([
+    encoder.encode("Exif\0\0"),
+    buildTiff([
+      [0x010d, metadata.sourceName],
+      [0x010e, describe(metadata)],
+      [0x0131, APP_ID],
+    ]),
+  ]);
+  const xmp = concat([encoder.encode("http://ns.adobe.com/xap/1.0/\0"), encoder.encode(buildXmp(metadata))]);
+
+  // Keep a leading JFIF APP0 segment in front, as readers expect
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+  return concat([
+    jpeg.subarray(0, insertAt),
+    jpegSegment(0xe1, exif),
+    jpegSegment(0xe1, xmp),
+    jpeg.subarray(insertAt),
+  ]);
+}
+
+// --- PNG -------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat([encoder.encode(type), data]);
+  const chunk = new Uint8Array(8 + data.length + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(body, 4);
+  view.setUint32(8 + data.length, crc32(body));
+  return chunk;
+};
+
+// tEXt is Latin-1 only, so it is used for plain ASCII values
+const textChunk = (keyword: string, text: string) => pngChunk("tEXt", encoder.encode(`${keyword}\0${text}`));
+
+// Uncompressed, untranslated international text (UTF-8)
+const itxtChunk = (keyword: string, text: string) =>
+  pngChunk("iTXt", concat([encoder.encode(`${keyword}\0`), new Uint8Array([0, 0, 0, 0]), encoder.encode(text)]));
+
+function embedPng(png: Uint8Array, metadata: FrameMetadata) {
+  // Signature (8 bytes) followed by IHDR (8 + 13 + 4 bytes), which must stay first
+  const ihdrEnd = 33;
+  if (png[1] !== 0x50 || png[2] !== 0x4e || png[3] !== 0x47) throw new Error("Not a PNG image");
+
+  return concat([
+    png.subarray(0, ihdrEnd),
+    textChunk("Software", APP_ID),
+    textChunk("Comment", `Frame ${metadata.frame} at ${metadata.timecode} (${metadata.time.toFixed(3)}s)`),
+    itxtChunk("Source", metadata.sourceName),
+    itxtChunk("Description", describe(metadata)),
+    itxtChunk("XML:com.adobe.xmp", buildXmp(metadata)),
+    png.subarray(ihdrEnd),
+  ]);
+}
+
+export async function embedMetadata(blob: Blob, metadata: FrameMetadata): Promise<Blob> {
+  if (blob.type !== "image/jpeg" && blob.type !== "image/png") return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const output = blob.type === "image/jpeg" ? embedJpeg(bytes, metadata) : embedPng(bytes, metadata);
+  return new Blob([output], { type: blob.type });
+}
@@ -0,0 +1,123 @@
+// Layer bookkeeping for editor objects. Names, ids and flags are stored on
+// the Fabric objects themselves so they survive undo/redo (which round-trips
+// through canvas JSON) and the autosave.
+
+import { FabricObject, Group } from "fabric";
+import type { Canvas } from "fabric";
+
+declare module "fabric" {
+  interface FabricObject {
+    layerId?: string;
+    name?: string;
+    locked?: boolean;
+    // The frame being annotated: always the bottom layer and never editable
+    isBase?: boolean;
+  }
+  interface SerializedObjectProps {
+    layerId?: string;
+    name?: string;
+    locked?: boolean;
+    isBase?: boolean;
+  }
+}
+
+FabricObject.customProperties = [...FabricObject.customProperties, "layerId", "name", "locked", "isBase"];
+
+export interface LayerInfo {
+  id: string;
+  name: string;
+  icon: string;
+  visible: boolean;
+  locked: boolean;
+  isBase: boolean;
+  isGroup: boolean;
+  // Redactions read the pixels under them, which a group's opacity and cache
+  // would get wrong, so they stay out of groups
+  groupable: boolean;
+}
+
+const KINDS: Record<string, { icon: string; label: string }> = {
+  path: { icon: "✎", label: "Drawing" },
+  rect: { icon: "▭", label: "Rectangle" },
+  circle: { icon: "○", label: "Circle" },
+  line: { icon: "╱", label: "Line" },
+  itext: { icon: "T", label: "Text" },
+  textbox: { icon: "T", label: "Text" },
+  labeltext: { icon: "T", label: "Text" },
+  text: { icon: "T", label: "Text" },
+  image: { icon: "▨", label: "Image" },
+  group: { icon: "❒", label: "Group" },
+  arrow: { icon: "➔", label: "Arrow" },
+  callout: { icon: "💬", label: "Callout" },
+  step: { icon: "#", label: "Step" },
+  redaction: { icon: "▒", label: "Redaction" },
+};
+
+const kindOf = (obj: FabricObject) => KINDS[obj.annotationType ?? obj.type] ?? { icon: "◆", label: "Object" };
+
+// Objects that are part of the document, as opposed to tool UI such as the crop frame
+export const layerObjects = (canvas: Canvas) => canvas.getObjects().filter((obj) => !obj.excludeFromExport);
+
+// The base frame and locked layers never take pointer events
+export const isPinned = (obj: FabricObject) => !!obj.isBase || !!obj.locked;
+
+// Give a newly added object an id and a numbered default name ("Rectangle 3")
+export function registerLayer(canvas: Canvas, obj: FabricObject) {
+  if (obj.excludeFromExport) return;
+  if (!obj.layerId) obj.layerId = crypto.randomUUID();
+  if (obj.name) return;
+  if (obj.isBase) {
+    obj.name = "Frame";
+    return;
+  }
+  const { label } = kindOf(obj);
+  const taken = new Set(layerObjects(canvas).map((o) => o.name));
+  let n = 1;
+  while (taken.has(`${label} ${n}`)) n++;
+  obj.name = `${label} ${n}`;
+}
+
+// A copy is a new layer, named and given an id when added. Members of a copied
+// group keep their names but need ids of their own, or they would clash with
+// the originals' once ungrouped.
+export function forgetLayer(obj: FabricObject) {
+  obj.layerId = undefined;
+  obj.name = undefined;
+  const renew = (member: FabricObject) => {
+    if (member.layerId) member.layerId = crypto.randomUUID();
+    if (member instanceof Group) member.getObjects().forEach(renew);
+  };
+  if (obj instanceof Group) obj.getObjects().forEach(renew);
+}
+
+// Objects can only be picked up while the select tool is on, which is the
+// one tool that turns on canvas.selection
+export function setInteractivity(canvas: Canvas, obj: FabricObject) {
+  obj.set({ selectable: canvas.selection && !isPinned(obj), evented: !isPinned(obj) });
+}
+
+// Objects restored from JSON come back selectable, which the drawing tools
+// must not allow
+export function resetInteractivity(canvas: Canvas) {
+  canvas.forEachObject((obj) => setInteractivity(canvas, obj));
+}
+
+export const canGroup = (obj: FabricObject) => !obj.isBase && obj.type !== "redaction";
+
+// Top-most layer first, as layer panels list them
+export const describeLayers = (canvas: Canvas): LayerInfo[] =>
+  layerObjects(canvas)
+    .map((obj) => ({
+      id: obj.layerId ?? "",
+      name: obj.name ?? kindOf(obj).label,
+      icon: kindOf(obj).icon,
+      visible: obj.visible,
+      locked: !!obj.locked,
+      isBase: !!obj.isBase,
+      // Step markers are groups too, but stay one object
+      isGroup: obj.type === "group" && obj.annotationType !== "step",
+      groupable: canGroup(obj),
+    }))
+    .reverse();
+
+export const findLayer = (canvas: Canvas, id: string) => layerObjects(canvas).find((obj) => obj.layerId === id);
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { createMarker, markersToCsv, markersToJson, parseMarkers } from "./markers";
+
+const START = "01:00:00:00";
+
+// What survives a round trip; ids are new on every import
+const contents = (markers: { time: number; label: string; note: string }[]) =>
+  markers.map(({ time, label, note }) => ({ time, label, note }));
+
+describe("marker CSV", () => {
+  const markers = [
+    createMarker(2.5, "Cut, then fade", 'He said "go"'),
+    createMarker(1, "Intro", "line one\r\nline two"),
+  ];
+
+  it("exports sorted rows with quoted fields where needed", () => {
+    expect(markersToCsv(markers, 25, START)).toBe(
+      "time,timecode,label,note\r\n" +
+        "1.000000,01:00:01:00,Intro,\"line one\r\nline two\"\r\n" +
+        '2.500000,01:00:02:12,"Cut, then fade","He said ""go"""\r\n'
+    );
+  });
+
+  it("reads its own export back", () => {
+    expect(contents(parseMarkers(markersToCsv(markers, 25, START), 25, START))).toEqual([
+      { time: 1, label: "Intro", note: "line one\r\nline two" },
+      { time: 2.5, label: "Cut, then fade", note: 'He said "go"' },
+    ]);
+  });
+
+  it("falls back to the timecode column, in the displayed timebase", () => {
+    const csv = "Label,Timecode\nA,01:00:01:00\nB,00:59:59:00\nC,nonsense\n";
+    expect(contents(parseMarkers(csv, 25, START))).toEqual([{ time: 25.5 / 25, label: "A", note: "" }]);
+  });
+
+  it("skips blank lines and rejects files without a time column", () => {
+    expect(parseMarkers("time\n\n3\n,\n", 25, START).map((m) => m.time)).toEqual([3]);
+    expect(() => parseMarkers("label,note\nA,B\n", 25, START)).toThrow("no time or timecode column");
+  });
+});
+
+describe("marker JSON", () => {
+  it("reads its own export back", () => {
+    const json = markersToJson([createMarker(4, "Title", "Note")], "clip.mp4", 25, START);
+    expect(JSON.parse(json)).toEqual({
+      source: "clip.mp4",
+      fps: 25,
+      markers: [{ time: 4, timecode: "01:00:04:00", label: "Title", note: "Note" }],
+    });
+    expect(contents(parseMarkers(json, 25, START))).toEqual([{ time: 4, label: "Title", note: "Note" }]);
+  });
+
+  it("accepts a bare array and skips unusable entries", () => {
+    const json = JSON.stringify([{ time: 1 }, { timecode: "01:00:02:00", label: 7 }, { time: -1 }, null, "x"]);
+    expect(contents(parseMarkers(json, 25, START))).toEqual([
+      { time: 1, label: "", note: "" },
+      { time: 50.5 / 25, label: "7", note: "" },
+    ]);
+  });
+
+  it("rejects JSON without markers", () => {
+    expect(() => parseMarkers('{"source":"clip.mp4"}', 25, START)).toThrow("No markers in JSON file");
+  });
+});
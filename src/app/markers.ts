@@ -0,0 +1,164 @@
+// Timestamp markers: storage in IndexedDB, keyed by a fingerprint of the
+// video file so they come back when the same file is opened again, and
+// JSON / CSV import and export.
+
+import { deleteRecord, getRecord, putRecord } from "./storage";
+import { formatTimecode, timecodeToFrames } from "./timecode";
+import { frameToTime } from "./videoFrames";
+
+export interface Marker {
+  id: string;
+  // Media time of the marked frame, in seconds
+  time: number;
+  label: string;
+  note: string;
+}
+
+// Bytes hashed from each end of the file. Hashing all of a multi-GB video
+// would take too long, and name + size + both ends tells files apart well enough.
+const FINGERPRINT_SAMPLE = 64 * 1024;
+
+export async function videoFingerprint(file: File): Promise<string> {
+  const head = await file.slice(0, FINGERPRINT_SAMPLE).arrayBuffer();
+  const tail = await file.slice(Math.max(0, file.size - FINGERPRINT_SAMPLE)).arrayBuffer();
+  const sample = new Uint8Array(head.byteLength + tail.byteLength);
+  sample.set(new Uint8Array(head), 0);
+  sample.set(new Uint8Array(tail), head.byteLength);
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", sample));
+  const hash = Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${file.name}:${file.size}:${hash}`;
+}
+
+export async function loadMarkers(fingerprint: string): Promise<Marker[]> {
+  return (await getRecord<Marker[]>("markers", fingerprint)) ?? [];
+}
+
+export async function saveMarkers(fingerprint: string, markers: Marker[]): Promise<void> {
+  // Don't leave empty records behind for every video that was ever opened
+  if (markers.length === 0) {
+    await deleteRecord("markers", fingerprint);
+  } else {
+    await putRecord("markers", fingerprint, markers);
+  }
+}
+
+export const sortMarkers = (markers: Marker[]) => [...markers].sort((a, b) => a.time - b.time);
+
+export const createMarker = (time: number, label = "", note = ""): Marker => ({
+  id: crypto.randomUUID(),
+  time,
+  label,
+  note,
+});
+
+// --- Export ----------------------------------------------------------------
+
+export function markersToJson(markers: Marker[], sourceName: string, fps: number, startTimecode: string): string {
+  return JSON.stringify(
+    {
+      source: sourceName,
+      fps,
+      markers: sortMarkers(markers).map(({ time, label, note }) => ({
+        time: Number(time.toFixed(6)),
+        timecode: formatTimecode(time, fps, startTimecode),
+        label,
+        note,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function markersToCsv(markers: Marker[], fps: number, startTimecode: string): string {
+  const rows = sortMarkers(markers).map(({ time, label, note }) =>
+    [time.toFixed(6), formatTimecode(time, fps, startTimecode), label, note].map(csvField).join(",")
+  );
+  return ["time,timecode,label,note", ...rows].join("\r\n") + "\r\n";
+}
+
+// --- Import ----------------------------------------------------------------
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// A time in seconds, or failing that a timecode in the displayed timebase
+function readTime(time: unknown, timecode: unknown, fps: number, startTimecode: string): number | null {
+  const seconds = typeof time === "number" ? time : typeof time === "string" && time.trim() ? Number(time) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds;
+
+  if (typeof timecode !== "string") return null;
+  const frames = timecodeToFrames(timecode, fps);
+  if (frames === null) return null;
+  const offset = frames - (timecodeToFrames(startTimecode, fps) ?? 0);
+  return offset >= 0 ? frameToTime(offset, fps) : null;
+}
+
+// Read markers from a JSON or CSV export. Throws if the file is neither.
+export function parseMarkers(text: string, fps: number, startTimecode: string): Marker[] {
+  const trimmed = text.trim();
+  const markers: Marker[] = [];
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const data = JSON.parse(trimmed);
+    const items: unknown = Array.isArray(data) ? data : data?.markers;
+    if (!Array.isArray(items)) throw new Error("No markers in JSON file");
+    for (const item of items) {
+      if (!item || typeof item !== "object") continue;
+      const time = readTime(item.time, item.timecode, fps, startTimecode);
+      if (time === null) continue;
+      markers.push(createMarker(time, String(item.label ?? ""), String(item.note ?? "")));
+    }
+    return markers;
+  }
+
+  const [header, ...rows] = parseCsv(trimmed);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  if (column("time") < 0 && column("timecode") < 0) throw new Error("CSV file has no time or timecode column");
+
+  for (const row of rows) {
+    const time = readTime(row[column("time")], row[column("timecode")], fps, startTimecode);
+    if (time === null) continue;
+    markers.push(createMarker(time, row[column("label")] ?? "", row[column("note")] ?? ""));
+  }
+  return markers;
+}
@@ -2,37 +2,116 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import dynamic from "next/dynamic";
+import BatchExtractor from "./BatchExtractor";
+import ClipExporter from "./ClipExporter";
+import ContactSheet from "./ContactSheet";
+import ExportOptions from "./ExportOptions";
+import Filmstrip from "./Filmstrip";
+import FrameCompare from "./FrameCompare";
+import MarkerPanel from "./MarkerPanel";
+import SceneDetector from "./SceneDetector";
+import SharpFramePicker from "./SharpFramePicker";
+import VideoLibrary from "./VideoLibrary";
+import type { CapturedFrame, Decoder, VideoEntry } from "./VideoLibrary";
+import { copyCanvasToClipboard, pastedFiles, readAsDataUrl } from "./clipboard";
+import { baseName, downloadBlob, zipFiles } from "./downloads";
+import type { NamedBlob } from "./downloads";
+import { decodeFrame, probeVideo } from "./ffmpegDecoder";
+import { DEFAULT_EXPORT_SETTINGS, encodeCanvas, getImageFormat } from "./imageFormats";
+import type { ExportSettings } from "./imageFormats";
+import { frameMetadata } from "./imageMetadata";
+import type { FrameMetadata } from "./imageMetadata";
+import type { Marker } from "./markers";
+import {
+  ZERO_TIMECODE,
+  formatTimecode,
+  framesToTimecode,
+  isDropFrame,
+  parseTimeInput,
+  timecodeForFileName,
+  timecodeToFrames,
+} from "./timecode";
+import {
+  DEFAULT_FPS,
+  canPlayNatively,
+  detectFrameRate,
+  drawVideoFrame,
+  frameToTime,
+  isVideoFile,
+  seekVideo,
+  timeToFrame,
+  totalFrames,
+  videoThumbnail,
+} from "./videoFrames";
 
 // Dynamically import FrameEditor to avoid SSR issues with Fabric.js
 const FrameEditor = dynamic(() => import("./FrameEditor"), { ssr: false });
 
 type Tab = "grabber" | "editor";
 
+interface FfmpegStatus {
+  stage: "loading" | "decoding";
+  progress: number;
+}
+
 export default function Home() {
+  // Every loaded video; the states below mirror the active one
+  const [library, setLibrary] = useState<VideoEntry[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [duration, setDuration] = useState<number>(0);
   const [position, setPosition] = useState<number>(0);
+  const [fps, setFps] = useState<number>(DEFAULT_FPS);
+  // Timecode of the first frame, e.g. 01:00:00:00 for material from a tape or camera
+  const [startTimecode, setStartTimecode] = useState(ZERO_TIMECODE);
+  const [goToText, setGoToText] = useState("");
+  const [goToError, setGoToError] = useState(false);
+  const [decoder, setDecoder] = useState<Decoder>("native");
+  const [ffmpegStatus, setFfmpegStatus] = useState<FfmpegStatus | null>(null);
   const [frameUrl, setFrameUrl] = useState<string | null>(null);
+  // Frames extracted from the active video, and the one shown in the preview
+  const [captures, setCaptures] = useState<CapturedFrame[]>([]);
+  const [capturedFrame, setCapturedFrame] = useState<CapturedFrame | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [frameSize, setFrameSize] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  // Latest scene-detection result, shared with the contact sheet
+  const [sceneCuts, setSceneCuts] = useState<number[]>([]);
+  // Markers of the active video, drawn under the slider
+  const [markers, setMarkers] = useState<Marker[]>([]);
   const [isExtracting, setIsExtracting] = useState<boolean>(false);
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<Tab>("grabber");
   const [frameToEdit, setFrameToEdit] = useState<string | null>(null);
   const frameToEditRef = useRef<string | null>(null);
+  // Provenance of the frame sent to the editor, kept on its exports
+  const [frameToEditMetadata, setFrameToEditMetadata] = useState<FrameMetadata | null>(null);
   const [hasExistingFrame, setHasExistingFrame] = useState<boolean>(false);
+  // The editor found autosaved edits from an earlier visit
+  const [hasSavedEdits, setHasSavedEdits] = useState(false);
 
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // Incremented on every seek so only the latest one updates the position
+  const seekIdRef = useRef(0);
 
   // Clean up object URLs
   // Store refs to track URL cleanup
   const videoUrlRef = useRef<string | null>(null);
   const frameUrlRef = useRef<string | null>(null);
+  const libraryRef = useRef<VideoEntry[]>([]);
+  // Frame rates already measured, by video URL
+  const detectedRatesRef = useRef(new Map<string, number>());
   
   // Update refs when URLs change
   useEffect(() => {
     videoUrlRef.current = videoUrl;
   }, [videoUrl]);
+
+  useEffect(() => {
+    libraryRef.current = library;
+  }, [library]);
   
   useEffect(() => {
     frameUrlRef.current = frameUrl;
@@ -42,35 +121,136 @@ export default function Home() {
   useEffect(() => {
     return () => {
       // Only cleanup on actual unmount
-      if (videoUrlRef.current) URL.revokeObjectURL(videoUrlRef.current);
+      libraryRef.current.forEach((entry) => URL.revokeObjectURL(entry.url));
       if (frameUrlRef.current) URL.revokeObjectURL(frameUrlRef.current);
     };
   }, []); // Empty dependency array - only runs on mount/unmount
 
-  const onChooseFile = (file: File | null) => {
-    setFrameUrl((prev) => {
-      if (prev) URL.revokeObjectURL(prev);
-      return null;
-    });
+  // Keep the active entry up to date so switching back restores it as it was
+  useEffect(() => {
+    if (!activeId) return;
+    setLibrary((prev) =>
+      prev.map((entry) =>
+        entry.id === activeId
+          ? { ...entry, decoder, duration, fps, startTimecode, position, captures, capturedFrame }
+          : entry
+      )
+    );
+  }, [activeId, decoder, duration, fps, startTimecode, position, captures, capturedFrame]);
 
-    setVideoFile(file);
-    if (videoUrl) URL.revokeObjectURL(videoUrl);
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setVideoUrl(url);
-      setPosition(0);
-      setDuration(0);
-      // The duration will be updated on loadedmetadata
-    } else {
-      setVideoUrl(null);
-      setDuration(0);
-      setPosition(0);
+  // Encode the captured frame in the chosen format for preview and download
+  useEffect(() => {
+    if (!capturedFrame) return;
+
+    let cancelled = false;
+    setFrameSize(null);
+    const metadata = videoFile ? frameMetadata(videoFile.name, capturedFrame.time, fps, startTimecode) : null;
+    encodeCanvas(capturedFrame.canvas, exportSettings, metadata)
+      .then((blob) => {
+        if (cancelled) return;
+        const url = URL.createObjectURL(blob);
+        setFrameUrl((prev) => {
+          if (prev) URL.revokeObjectURL(prev);
+          return url;
+        });
+        setFrameSize(blob.size);
+      })
+      .catch((err) => {
+        console.error("Failed to encode frame:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [capturedFrame, exportSettings, videoFile, fps, startTimecode]);
+
+  // Switch a file the browser can't play over to ffmpeg.wasm decoding
+  const switchToFfmpeg = useCallback(async (file: File, url: string) => {
+    setDecoder("ffmpeg");
+    setFfmpegStatus({ stage: "loading", progress: 0 });
+    try {
+      const info = await probeVideo(file, (progress) => {
+        setFfmpegStatus({ stage: "loading", progress });
+      });
+      // Another video may have been opened in the meantime
+      if (videoUrlRef.current !== url) return;
+      setDuration(info.duration);
+      if (info.fps) setFps(info.fps);
+    } catch (err) {
+      console.error("ffmpeg.wasm could not read the video:", err);
+      alert("This video format could not be decoded.");
+    } finally {
+      setFfmpegStatus(null);
+    }
+  }, []);
+
+  // Load a library entry into the grabber, or clear it when there is none
+  const activateEntry = useCallback((entry: VideoEntry | null) => {
+    videoUrlRef.current = entry?.url ?? null;
+    setActiveId(entry?.id ?? null);
+    setVideoFile(entry?.file ?? null);
+    setVideoUrl(entry?.url ?? null);
+    setDecoder(entry?.decoder ?? "native");
+    setDuration(entry?.duration ?? 0);
+    setFps(entry?.fps ?? DEFAULT_FPS);
+    setStartTimecode(entry?.startTimecode ?? ZERO_TIMECODE);
+    setPosition(entry?.position ?? 0);
+    setCaptures(entry?.captures ?? []);
+    setCapturedFrame(entry?.capturedFrame ?? null);
+    if (!entry?.capturedFrame) {
+      setFrameUrl((prev) => {
+        if (prev) URL.revokeObjectURL(prev);
+        return null;
+      });
+    }
+
+    // The duration and frame rate of native videos are updated on loadedmetadata
+    if (entry && entry.decoder === "ffmpeg" && entry.duration === 0) {
+      switchToFfmpeg(entry.file, entry.url);
+    }
+  }, [switchToFfmpeg]);
+
+  const addVideos = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    const entries: VideoEntry[] = files.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      url: URL.createObjectURL(file),
+      decoder: canPlayNatively(file) ? "native" : "ffmpeg",
+      duration: 0,
+      fps: DEFAULT_FPS,
+      startTimecode: ZERO_TIMECODE,
+      position: 0,
+      captures: [],
+      capturedFrame: null,
+    }));
+    setLibrary((prev) => [...prev, ...entries]);
+    activateEntry(entries[0]);
+  }, [activateEntry]);
+
+  const selectVideo = (id: string) => {
+    if (id === activeId) return;
+    const entry = library.find((e) => e.id === id);
+    if (entry) activateEntry(entry);
+  };
+
+  const removeVideo = (id: string) => {
+    const index = library.findIndex((e) => e.id === id);
+    if (index < 0) return;
+    URL.revokeObjectURL(library[index].url);
+    detectedRatesRef.current.delete(library[index].url);
+
+    const remaining = library.filter((e) => e.id !== id);
+    setLibrary(remaining);
+    if (id === activeId) {
+      activateEntry(remaining[Math.min(index, remaining.length - 1)] ?? null);
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files && e.target.files[0] ? e.target.files[0] : null;
-    onChooseFile(file);
+    addVideos(Array.from(e.target.files ?? []));
+    // Allow adding the same file again
+    e.target.value = "";
   };
 
   // Drag and drop handlers
@@ -91,12 +271,12 @@ export default function Home() {
     e.stopPropagation();
     setIsDragging(false);
     
-    const files = e.dataTransfer.files;
-    if (files && files.length > 0) {
-      const file = files[0];
-      // Check if it's a video file
-      if (file.type.startsWith('video/')) {
-        onChooseFile(file);
+    const files = Array.from(e.dataTransfer.files ?? []);
+    if (files.length > 0) {
+      // Skip anything that isn't a video
+      const videos = files.filter(isVideoFile);
+      if (videos.length > 0) {
+        addVideos(videos);
       } else {
         alert('Please drop a video file');
       }
@@ -106,89 +286,240 @@ export default function Home() {
   const onLoadedMetadata = () => {
     const video = videoRef.current;
     if (!video) return;
+    // Unsupported video codecs in a supported container often load as audio only
+    if (video.videoWidth === 0 && videoFile && videoUrl) {
+      switchToFfmpeg(videoFile, videoUrl);
+      return;
+    }
     if (!Number.isFinite(video.duration)) return;
     setDuration(video.duration);
+
+    const url = videoUrl;
+    if (!url) return;
+    // Coming back to a video from the library: restore where the user was
+    if (position > 0) seekToFrame(timeToFrame(position, fps));
+    if (detectedRatesRef.current.has(url)) return;
+
+    detectFrameRate(url).then((rate) => {
+      detectedRatesRef.current.set(url, rate);
+      // Ignore results for a video that has since been replaced
+      if (videoUrlRef.current === url) setFps(rate);
+    });
+  };
+
+  // Seek the player to a frame and sync the position to the frame it presents
+  const seekToFrame = useCallback(async (frame: number) => {
+    const lastFrame = totalFrames(duration, fps) - 1;
+    const target = Math.min(Math.max(0, frame), lastFrame);
+    const seekId = ++seekIdRef.current;
+    setPosition(target / fps);
+
+    // Without a player (ffmpeg decoding) the position is all there is to update
+    const video = videoRef.current;
+    if (!video) return;
+
+    const mediaTime = await seekVideo(video, frameToTime(target, fps));
+    if (seekId === seekIdRef.current) setPosition(mediaTime);
+  }, [duration, fps]);
+
+  const stepFrame = useCallback((delta: number) => {
+    seekToFrame(timeToFrame(position, fps) + delta);
+  }, [seekToFrame, position, fps]);
+
+  // Jump to a typed timecode, or a time in seconds / milliseconds
+  const onGoTo = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const frame = parseTimeInput(goToText, fps, startTimecode);
+    setGoToError(frame === null);
+    if (frame !== null) seekToFrame(frame);
+  };
+
+  const onStartTimecodeChange = (text: string) => {
+    const frames = timecodeToFrames(text, fps);
+    // Normalise the separators; anything unparseable leaves the offset as it was
+    if (frames !== null) setStartTimecode(framesToTimecode(frames, fps));
   };
 
   const onSeekSlider = (e: React.ChangeEvent<HTMLInputElement>) => {
     const t = parseFloat(e.target.value);
-    setPosition(t);
-    const video = videoRef.current;
-    if (video && !Number.isNaN(t)) {
+    if (Number.isNaN(t)) return;
+    seekToFrame(timeToFrame(t, fps));
+  };
+
+  // Arrow keys step frames while the grabber is open (Shift steps 10 frames)
+  useEffect(() => {
+    if (activeTab !== "grabber" || !videoUrl) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          target instanceof HTMLTextAreaElement ||
+          target instanceof HTMLSelectElement ||
+          (target instanceof HTMLInputElement && target.type !== "range"))
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      const step = e.shiftKey ? 10 : 1;
+      stepFrame(e.key === "ArrowLeft" ? -step : step);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [activeTab, videoUrl, stepFrame]);
+
+  // Pasting video files onto the grabber adds them like dropping them does
+  useEffect(() => {
+    if (activeTab !== "grabber") return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const videos = pastedFiles(e).filter(isVideoFile);
+      if (videos.length === 0) return;
+      e.preventDefault();
+      addVideos(videos);
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => {
+      window.removeEventListener("paste", handlePaste);
+    };
+  }, [activeTab, addVideos]);
+
+  // Seek the player to a time and capture exactly the frame it presents
+  const grabFrameAt = useCallback(async (time: number) => {
+    if (decoder === "ffmpeg") {
+      if (!videoFile) throw new Error("No video loaded");
+      const frame = timeToFrame(time, fps);
+      setFfmpegStatus({ stage: "decoding", progress: 0 });
       try {
-        video.currentTime = t;
-      } catch {}
+        const canvas = await decodeFrame(videoFile, frameToTime(frame, fps));
+        setPosition(frame / fps);
+        return { canvas, mediaTime: frame / fps };
+      } finally {
+        setFfmpegStatus(null);
+      }
     }
-  };
 
-  const extractFrame = useCallback(() => {
     const video = videoRef.current;
-    if (!video || !videoFile) return;
+    if (!video) throw new Error("No video loaded");
+
+    const seekId = ++seekIdRef.current;
+    const mediaTime = await seekVideo(video, frameToTime(timeToFrame(time, fps), fps));
+    if (seekId === seekIdRef.current) setPosition(mediaTime);
+
+    return { canvas: drawVideoFrame(video), mediaTime };
+  }, [decoder, videoFile, fps]);
+
+  const copyFrame = async () => {
+    if (!capturedFrame) return;
+    try {
+      await copyCanvasToClipboard(capturedFrame.canvas);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Copy to clipboard failed:", err);
+      alert("Failed to copy the frame. Your browser may not allow copying images.");
+    }
+  };
+
+  // Show a frame in the preview and keep it with the video's extracted frames
+  const addCapture = useCallback((canvas: HTMLCanvasElement, time: number) => {
+    const capture = { canvas, time, thumbnail: videoThumbnail(canvas) };
+    setCaptures((prev) => [...prev, capture]);
+    setCapturedFrame(capture);
+  }, []);
+
+  const extractFrame = useCallback(async () => {
+    if (!videoFile) return;
     
     setIsExtracting(true);
     
-    // Ensure video is at the correct time
-    video.currentTime = position;
-    
-    const handleSeeked = () => {
-      try {
-        const canvas = document.createElement('canvas');
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error("Could not get canvas context");
-        
-        ctx.drawImage(video, 0, 0);
-        
-        canvas.toBlob((blob) => {
-          if (!blob) {
-            console.error("Failed to create blob from canvas");
-            setIsExtracting(false);
-            return;
-          }
-          
-          const url = URL.createObjectURL(blob);
-          setFrameUrl((prev) => {
-            if (prev) URL.revokeObjectURL(prev);
-            return url;
-          });
-          setIsExtracting(false);
-        }, 'image/jpeg', 0.9);
-      } catch (err) {
-        console.error("Canvas extraction failed:", err);
-        alert("Failed to extract frame. Please try again.");
-        setIsExtracting(false);
+    try {
+      const { canvas, mediaTime } = await grabFrameAt(position);
+      addCapture(canvas, mediaTime);
+    } catch (err) {
+      console.error("Canvas extraction failed:", err);
+      alert("Failed to extract frame. Please try again.");
+    } finally {
+      setIsExtracting(false);
+    }
+  }, [grabFrameAt, addCapture, position, videoFile]);
+
+  // Grab several frames through the same path as "Get Frame" and download them as a ZIP
+  const extractFrames = useCallback(async (times: number[]) => {
+    if (!videoFile || times.length === 0) return;
+
+    const startPosition = position;
+    const { extension } = getImageFormat(exportSettings.format);
+    setIsExtracting(true);
+    try {
+      const files: NamedBlob[] = [];
+      for (const time of times) {
+        const { canvas, mediaTime } = await grabFrameAt(time);
+        const metadata = frameMetadata(videoFile.name, mediaTime, fps, startTimecode);
+        const blob = await encodeCanvas(canvas, exportSettings, metadata);
+        files.push({ name: `frame_${timecodeForFileName(metadata.timecode)}.${extension}`, blob });
       }
-      
-      // Remove the event listener
-      video.removeEventListener('seeked', handleSeeked);
-    };
-    
-    video.addEventListener('seeked', handleSeeked);
-    video.currentTime = position; // Trigger seek
-  }, [position, videoFile]);
+      downloadBlob(await zipFiles(files), `${baseName(videoFile.name)}_frames.zip`);
+    } catch (err) {
+      console.error("Frame extraction failed:", err);
+      alert("Failed to extract frames. Please try again.");
+    } finally {
+      // Put the player back where the user left it
+      await seekToFrame(timeToFrame(startPosition, fps));
+      setIsExtracting(false);
+    }
+  }, [grabFrameAt, seekToFrame, position, fps, videoFile, exportSettings, startTimecode]);
 
-  const handleEditFrame = () => {
-    if (!frameUrl) return;
-    
+  const openInEditor = (imageUrl: string, metadata: FrameMetadata | null = null) => {
     if (hasExistingFrame) {
       if (confirm("This will overwrite your existing frame in the editor. Do you want to proceed?")) {
-        frameToEditRef.current = frameUrl;
-        setFrameToEdit(frameUrl);
+        frameToEditRef.current = imageUrl;
+        setFrameToEdit(imageUrl);
+        setFrameToEditMetadata(metadata);
         setActiveTab("editor");
         // Reset hasExistingFrame since we're loading a frame from the grabber
         setHasExistingFrame(false);
       }
     } else {
-      frameToEditRef.current = frameUrl;
-      setFrameToEdit(frameUrl);
+      frameToEditRef.current = imageUrl;
+      setFrameToEdit(imageUrl);
+      setFrameToEditMetadata(metadata);
       setActiveTab("editor");
       // Reset hasExistingFrame since we're loading a frame from the grabber
       setHasExistingFrame(false);
     }
   };
 
+  const handleEditFrame = async () => {
+    if (!frameUrl) return;
+    const metadata =
+      videoFile && capturedFrame ? frameMetadata(videoFile.name, capturedFrame.time, fps, startTimecode) : null;
+    try {
+      // The preview URL is revoked on the next re-encode, so the editor (and
+      // its autosave) gets a copy of its own
+      const dataUrl = await readAsDataUrl(await (await fetch(frameUrl)).blob());
+      openInEditor(dataUrl, metadata);
+    } catch (err) {
+      console.error("Open in editor failed:", err);
+      alert("Failed to open the frame in the editor. Please try again.");
+    }
+  };
+
+  // Frames from every video in the library, for the compare view
+  const compareFrames = library.flatMap((entry) =>
+    entry.captures.map((capture) => ({
+      canvas: capture.canvas,
+      label: `${entry.file.name} @ ${formatTimecode(capture.time, entry.fps, entry.startTimecode)}`,
+    }))
+  );
+
   return (
     <div className="min-h-screen p-6 sm:p-10">
       <div className="max-w-5xl mx-auto w-full">
@@ -217,6 +548,11 @@ export default function Home() {
             }`}
           >
             Frame Editor
+            {hasSavedEdits && (
+              <span className="ml-1 text-blue-500" title="Unsaved edits can be restored">
+                ●
+              </span>
+            )}
           </button>
         </div>
 
@@ -227,7 +563,19 @@ export default function Home() {
               Upload a video, pick a time, preview the exact frame, and download it.
             </p>
 
-            <div className="grid gap-6">
+            <div className="flex flex-col md:flex-row gap-6 items-start">
+              {library.length > 0 && (
+                <div className="w-full md:w-60 shrink-0">
+                  <VideoLibrary
+                    entries={library}
+                    activeId={activeId}
+                    onSelect={selectVideo}
+                    onRemove={removeVideo}
+                  />
+                </div>
+              )}
+
+            <div className="grid gap-6 flex-1 min-w-0 w-full">
           <div 
             className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors cursor-pointer ${
               isDragging 
@@ -242,48 +590,162 @@ export default function Home() {
             <input
               ref={fileInputRef}
               type="file"
-              accept="video/*"
+              accept="video/*,.mkv,.avi,.mov,.mxf,.mts,.m2ts"
+              multiple
               onChange={handleFileInput}
               className="hidden"
               onClick={(e) => e.stopPropagation()}
             />
             <div className="space-y-2">
               <div className="text-lg font-medium">
-                {videoFile ? videoFile.name : 'Drop a video file here'}
+                {library.length > 0 ? 'Drop more videos here' : 'Drop video files here'}
               </div>
               <div className="text-sm opacity-60">
                 or click to browse files
               </div>
               <div className="text-xs opacity-40">
-                Supports MP4, WebM, MOV, and other video formats
+                Supports MP4, WebM, MOV, MKV, AVI, and other video formats
               </div>
             </div>
           </div>
 
           {videoUrl && (
             <div className="grid gap-4">
-              <video
-                ref={videoRef}
-                src={videoUrl}
-                onLoadedMetadata={onLoadedMetadata}
-                className="w-full rounded border border-black/[.08] dark:border-white/[.145]"
-                controls
-              />
+              {decoder === "native" ? (
+                <video
+                  ref={videoRef}
+                  src={videoUrl}
+                  onLoadedMetadata={onLoadedMetadata}
+                  onError={() => {
+                    if (videoFile) switchToFfmpeg(videoFile, videoUrl);
+                  }}
+                  className="w-full rounded border border-black/[.08] dark:border-white/[.145]"
+                  controls
+                />
+              ) : (
+                <div className="rounded border border-black/[.08] dark:border-white/[.145] p-4 text-sm grid gap-2">
+                  <div>
+                    Your browser can&apos;t play this format, so frames are decoded with ffmpeg.wasm.
+                    Pick a time and click &quot;Get Frame&quot; to see it.
+                  </div>
+                  <div className="text-xs opacity-60">
+                    The filmstrip, sharpest-frame picker, scene detection, contact sheet, batch extraction and clip
+                    export need a video the browser can play, so they aren&apos;t available for ffmpeg-decoded videos.
+                  </div>
+                  {ffmpegStatus?.stage === "loading" && (
+                    <div className="grid gap-1">
+                      <progress value={ffmpegStatus.progress} max={1} className="w-full" />
+                      <div className="text-xs opacity-60">Loading ffmpeg.wasm…</div>
+                    </div>
+                  )}
+                  {ffmpegStatus?.stage === "decoding" && (
+                    <div className="text-xs opacity-60">Decoding frame…</div>
+                  )}
+                </div>
+              )}
+
+              {decoder === "native" && duration > 0 && (
+                <Filmstrip
+                  key={videoUrl}
+                  videoUrl={videoUrl}
+                  duration={duration}
+                  fps={fps}
+                  position={position}
+                  onSeek={(time) => seekToFrame(timeToFrame(time, fps))}
+                />
+              )}
 
               <div className="grid gap-2">
                 <input
                   type="range"
                   min={0}
                   max={Math.max(0.01, duration)}
-                  step={0.04}
+                  step={1 / fps}
                   value={position}
                   onChange={onSeekSlider}
                 />
-                <div className="text-sm opacity-80">
-                  Time: {position.toFixed(2)}s / {duration.toFixed(2)}s
+                {markers.length > 0 && duration > 0 && (
+                  <div className="relative h-3 mx-2">
+                    {markers.map((marker) => (
+                      <button
+                        key={marker.id}
+                        onClick={() => seekToFrame(timeToFrame(marker.time, fps))}
+                        className="absolute top-0 w-2 h-3 -ml-1 rounded-sm bg-amber-500 hover:bg-amber-600"
+                        style={{ left: `${Math.min(100, (marker.time / duration) * 100)}%` }}
+                        title={`${formatTimecode(marker.time, fps, startTimecode)}${marker.label ? ` · ${marker.label}` : ""}`}
+                        aria-label={`Jump to marker ${marker.label || formatTimecode(marker.time, fps, startTimecode)}`}
+                      />
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => stepFrame(-1)}
+                      className="px-3 h-8 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+                      title="Previous frame (←)"
+                    >
+                      ◀
+                    </button>
+                    <button
+                      onClick={() => stepFrame(1)}
+                      className="px-3 h-8 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+                      title="Next frame (→)"
+                    >
+                      ▶
+                    </button>
+                  </div>
+                  <div className="text-sm opacity-80">
+                    <span className="font-mono">
+                      {formatTimecode(position, fps, startTimecode)} / {formatTimecode(duration, fps, startTimecode)}
+                    </span>
+                    {" · "}
+                    {position.toFixed(2)}s
+                    {" · "}
+                    Frame: {timeToFrame(position, fps)} / {totalFrames(duration, fps) - 1}
+                    {" · "}
+                    {fps} fps
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <form onSubmit={onGoTo} className="flex gap-2 items-center">
+                    <label htmlFor="go-to">Go to:</label>
+                    <input
+                      id="go-to"
+                      type="text"
+                      value={goToText}
+                      onChange={(e) => {
+                        setGoToText(e.target.value);
+                        setGoToError(false);
+                      }}
+                      placeholder={isDropFrame(fps) ? "00:00:00;00 or 12.5s" : "00:00:00:00 or 12.5s"}
+                      title="Timecode (HH:MM:SS:FF), seconds (12.5), milliseconds (1500ms) or MM:SS.sss"
+                      className={`w-40 px-2 py-1 border rounded font-mono ${goToError ? "border-red-500" : ""}`}
+                    />
+                  </form>
+                  <label className="flex gap-2 items-center">
+                    Start timecode:
+                    <input
+                      // Remount to show the normalised value after each edit
+                      key={startTimecode}
+                      type="text"
+                      defaultValue={startTimecode}
+                      onBlur={(e) => onStartTimecodeChange(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") onStartTimecodeChange(e.currentTarget.value);
+                      }}
+                      className="w-32 px-2 py-1 border rounded font-mono"
+                    />
+                  </label>
                 </div>
               </div>
 
+              <ExportOptions
+                settings={exportSettings}
+                onChange={setExportSettings}
+                estimatedSize={capturedFrame ? frameSize : undefined}
+              />
+
               <div>
                 <button
                   disabled={isExtracting}
@@ -304,11 +766,18 @@ export default function Home() {
                   <div className="flex gap-3">
                     <a
                       href={frameUrl}
-                      download={`frame_${position.toFixed(2)}s.jpg`}
+                      download={`frame_${timecodeForFileName(formatTimecode(capturedFrame?.time ?? position, fps, startTimecode))}.${getImageFormat(exportSettings.format).extension}`}
                       className="inline-flex items-center px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
                     >
                       Download frame
                     </a>
+                    <button
+                      onClick={copyFrame}
+                      className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
+                      title="Copy as PNG"
+                    >
+                      {copied ? "Copied!" : "Copy to clipboard"}
+                    </button>
                     <button
                       onClick={handleEditFrame}
                       className="px-4 h-10 rounded border border-black/[.08] dark:border-white/[.145] hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a]"
@@ -318,19 +787,123 @@ export default function Home() {
                   </div>
                 </div>
               )}
+
+              {captures.length > 1 && (
+                <div className="grid gap-2">
+                  <div className="text-sm opacity-80">Extracted frames ({captures.length})</div>
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {captures.map((capture, i) => (
+                      <button
+                        key={i}
+                        onClick={() => {
+                          setCapturedFrame(capture);
+                          seekToFrame(timeToFrame(capture.time, fps));
+                        }}
+                        className={`shrink-0 rounded border-2 ${
+                          capture === capturedFrame ? "border-blue-500" : "border-transparent"
+                        }`}
+                        title={formatTimecode(capture.time, fps, startTimecode)}
+                      >
+                        <img src={capture.thumbnail} alt={`Frame at ${capture.time.toFixed(2)}s`} className="h-16 rounded" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {compareFrames.length > 1 && (
+                <FrameCompare frames={compareFrames} exportSettings={exportSettings} />
+              )}
+
+              {videoFile && duration > 0 && (
+                <MarkerPanel
+                  key={videoUrl}
+                  videoFile={videoFile}
+                  fps={fps}
+                  position={position}
+                  startTimecode={startTimecode}
+                  onSeek={(time) => seekToFrame(timeToFrame(time, fps))}
+                  onExtractAll={extractFrames}
+                  onMarkersChange={setMarkers}
+                />
+              )}
+
+              {decoder === "native" && duration > 0 && (
+                <SharpFramePicker
+                  videoUrl={videoUrl}
+                  duration={duration}
+                  fps={fps}
+                  position={position}
+                  onPick={(canvas, time) => {
+                    // Feed the chosen candidate into the same preview / "Edit Frame" flow
+                    addCapture(canvas, time);
+                    seekToFrame(timeToFrame(time, fps));
+                  }}
+                />
+              )}
+
+              {decoder === "native" && duration > 0 && (
+                <SceneDetector
+                  videoUrl={videoUrl}
+                  duration={duration}
+                  fps={fps}
+                  onSeek={(time) => seekToFrame(timeToFrame(time, fps))}
+                  onExtractAll={extractFrames}
+                  onCutsChange={setSceneCuts}
+                />
+              )}
+
+              {decoder === "native" && duration > 0 && (
+                <ContactSheet
+                  videoUrl={videoUrl}
+                  videoName={videoFile?.name ?? "video"}
+                  duration={duration}
+                  fps={fps}
+                  startTimecode={startTimecode}
+                  sceneCuts={sceneCuts}
+                  exportSettings={exportSettings}
+                  onOpenInEditor={openInEditor}
+                />
+              )}
+
+              {decoder === "native" && duration > 0 && (
+                <BatchExtractor
+                  videoUrl={videoUrl}
+                  videoName={videoFile?.name ?? "video"}
+                  duration={duration}
+                  fps={fps}
+                  position={position}
+                  startTimecode={startTimecode}
+                  exportSettings={exportSettings}
+                />
+              )}
+
+              {decoder === "native" && duration > 0 && (
+                <ClipExporter
+                  videoUrl={videoUrl}
+                  videoName={videoFile?.name ?? "video"}
+                  duration={duration}
+                  fps={fps}
+                  position={position}
+                />
+              )}
             </div>
           )}
         </div>
+            </div>
           </div>
         </div>
         
         <div style={{ display: activeTab === "editor" ? "block" : "none" }}>
           <FrameEditor 
+            isActive={activeTab === "editor"}
             initialImage={frameToEdit || frameToEditRef.current} 
+            initialMetadata={frameToEditMetadata}
             onImageImport={() => {
               // Set hasExistingFrame to true when user creates/uploads a frame in the editor
               setHasExistingFrame(true);
             }}
+            onRestoreAvailableChange={setHasSavedEdits}
           />
         </div>
       </div>
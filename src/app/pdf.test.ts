@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { jpegToPdf } from "./pdf";
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0x00, 0x80, 0xff, 0x0a, 0xff, 0xd9]);
+
+// Latin-1 keeps one character per byte, so string offsets are byte offsets
+const read = async (blob: Blob) => new TextDecoder("latin1").decode(await blob.arrayBuffer());
+
+describe("jpegToPdf", () => {
+  it("writes a cross-reference table that points at every object", async () => {
+    const blob = jpegToPdf(JPEG, 640, 360, "Sheet");
+    expect(blob.type).toBe("application/pdf");
+    const pdf = await read(blob);
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.endsWith("%%EOF\n")).toBe(true);
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+    expect(pdf.slice(startxref, startxref + 5)).toBe("xref\n");
+
+    const [, count, entries] = pdf.slice(startxref).match(/^xref\n0 (\d+)\n((?:\d{10} \d{5} [fn] \n)+)/) ?? [];
+    const offsets = entries.match(/\d{10} \d{5} [fn] \n/g) ?? [];
+    expect(offsets).toHaveLength(Number(count));
+    expect(offsets[0]).toBe("0000000000 65535 f \n");
+    offsets.slice(1).forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj\n`)).toBe(true);
+    });
+    expect(pdf).toContain(`trailer\n<< /Size ${count} /Root 1 0 R /Info ${Number(count) - 1} 0 R >>`);
+  });
+
+  it("embeds the JPEG unchanged at 72 dpi page size", async () => {
+    const pdf = await read(jpegToPdf(JPEG, 640, 360));
+    expect(pdf).toContain("/MediaBox [0 0 480.00 270.00]");
+    expect(pdf).toContain("/Width 640 /Height 360");
+
+    const image = pdf.match(/\/Filter \/DCTDecode \/Length (\d+) >>\nstream\n/);
+    expect(Number(image?.[1])).toBe(JPEG.length);
+    const start = (image?.index ?? 0) + (image?.[0].length ?? 0);
+    expect(pdf.slice(start, start + JPEG.length)).toBe(new TextDecoder("latin1").decode(JPEG));
+    expect(pdf.slice(start + JPEG.length).startsWith("\nendstream")).toBe(true);
+
+    const content = pdf.match(/<< \/Length (\d+) >>\nstream\n(.*)\nendstream/);
+    expect(content?.[2]).toBe("q 480.00 0 0 270.00 0 0 cm /Im0 Do Q");
+    expect(Number(content?.[1])).toBe(content?.[2].length);
+  });
+
+  it("escapes the title and drops non-ASCII characters", async () => {
+    const pdf = await read(jpegToPdf(JPEG, 10, 10, "a (b) \\ café"));
+    expect(pdf).toContain("/Title (a \\(b\\) \\\\ caf_)");
+  });
+});
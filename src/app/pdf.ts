@@ -0,0 +1,55 @@
+// Minimal PDF writer: a single page showing one JPEG at its own size. JPEG
+// data can be embedded as-is (DCTDecode), so no compression library is needed.
+
+const encoder = new TextEncoder();
+
+export function jpegToPdf(jpeg: Uint8Array, width: number, height: number, title = ""): Blob {
+  // 96 dpi pixels to 72 dpi points
+  const pageWidth = (width * 72) / 96;
+  const pageHeight = (height * 72) / 96;
+  const content = `q ${pageWidth.toFixed(2)} 0 0 ${pageHeight.toFixed(2)} 0 0 cm /Im0 Do Q`;
+  // Titles go into a literal string, so escape its delimiters and drop non-ASCII
+  const safeTitle = title.replace(/[\\()]/g, "\\$&").replace(/[^\x20-\x7e]/g, "_");
+
+  const objects: (string | Uint8Array)[][] = [
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    ["<< /Type /Pages /Kids [3 0 R] /Count 1 >>"],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] ` +
+        "/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>",
+    ],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      "\nendstream",
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+    [`<< /Title (${safeTitle}) /Producer (FrameGrabber) >>`],
+  ];
+
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  write("%PDF-1.4\n");
+  const offsets = objects.map((pieces, i) => {
+    const offset = length;
+    write(`${i + 1} 0 obj\n`);
+    pieces.forEach(write);
+    write("\nendobj\n");
+    return offset;
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, "0")} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`);
+  write(`startxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts as Uint8Array<ArrayBuffer>[], { type: "application/pdf" });
+}
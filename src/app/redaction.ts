@@ -0,0 +1,158 @@
+// Redaction regions for the editor. A redaction is a closed path that shows
+// a blurred, pixelated or filled copy of the frame underneath it. It stays an
+// ordinary object (movable, undoable) while editing; since it only ever draws
+// processed pixels, any export of the canvas has them burned in.
+
+import { FabricObject, Path, classRegistry, util } from "fabric";
+import type { Canvas } from "fabric";
+import { annotationScale } from "./annotationStyle";
+
+export type RedactMode = "blur" | "pixelate" | "fill";
+export type RedactShape = "rectangle" | "freehand";
+
+declare module "fabric" {
+  interface FabricObject {
+    redactMode?: RedactMode;
+    // Blur radius or pixel block size, for a 720px tall document
+    redactStrength?: number;
+  }
+  interface SerializedObjectProps {
+    redactMode?: RedactMode;
+    redactStrength?: number;
+  }
+}
+
+FabricObject.customProperties = [...FabricObject.customProperties, "redactMode", "redactStrength"];
+
+export interface RedactionSettings {
+  mode: RedactMode;
+  shape: RedactShape;
+  strength: number;
+}
+
+export const DEFAULT_REDACTION: RedactionSettings = { mode: "blur", shape: "rectangle", strength: 12 };
+
+export const REDACT_MODES: { id: RedactMode; label: string }[] = [
+  { id: "blur", label: "Blur" },
+  { id: "pixelate", label: "Pixelate" },
+  { id: "fill", label: "Fill" },
+];
+
+export const REDACT_SHAPES: { id: RedactShape; label: string }[] = [
+  { id: "rectangle", label: "Rectangle" },
+  { id: "freehand", label: "Freehand" },
+];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const rectanglePath = (a: Point, b: Point) =>
+  `M ${a.x} ${a.y} L ${b.x} ${a.y} L ${b.x} ${b.y} L ${a.x} ${b.y} Z`;
+
+export const freehandPath = (points: Point[]) =>
+  `M ${points.map((p) => `${p.x} ${p.y}`).join(" L ")} Z`;
+
+// Processed copies of each base frame, by mode, strength and size. Undo and
+// crop replace the base object, which drops its copies with it.
+const sources = new WeakMap<FabricObject, Map<string, HTMLCanvasElement>>();
+const MAX_SOURCES_PER_FRAME = 4;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+// Below these a redaction can leave text legible, whatever the strength
+const MIN_BLUR_FACTOR = 4;
+const MIN_PIXEL_BLOCK = 6;
+
+// Shrinking and scaling back up works in every browser, unlike ctx.filter.
+// Smoothed it gives a blur, unsmoothed it gives square blocks.
+function process(frame: HTMLCanvasElement, mode: RedactMode, size: number) {
+  const factor = mode === "blur" ? Math.max(MIN_BLUR_FACTOR, size / 2) : Math.max(MIN_PIXEL_BLOCK, size);
+  const small = createCanvas(frame.width / factor, frame.height / factor);
+  small.ctx.imageSmoothingQuality = "high";
+  small.ctx.drawImage(frame, 0, 0, small.canvas.width, small.canvas.height);
+
+  const out = createCanvas(frame.width, frame.height);
+  out.ctx.imageSmoothingEnabled = mode === "blur";
+  out.ctx.imageSmoothingQuality = "high";
+  out.ctx.drawImage(small.canvas, 0, 0, out.canvas.width, out.canvas.height);
+  return out.canvas;
+}
+
+function redactedSource(canvas: Canvas, mode: RedactMode, size: number) {
+  const base = canvas.getObjects().find((obj) => obj.isBase);
+  if (!base) return null;
+
+  let cache = sources.get(base);
+  if (!cache) {
+    cache = new Map();
+    sources.set(base, cache);
+  }
+  const key = `${mode}:${size}:${canvas.width}x${canvas.height}`;
+  let source = cache.get(key);
+  if (!source) {
+    const frame = createCanvas(canvas.width, canvas.height);
+    if (typeof canvas.backgroundColor === "string") {
+      frame.ctx.fillStyle = canvas.backgroundColor;
+      frame.ctx.fillRect(0, 0, frame.canvas.width, frame.canvas.height);
+    }
+    base.render(frame.ctx);
+    source = process(frame.canvas, mode, size);
+    const oldest = cache.keys().next().value;
+    if (cache.size >= MAX_SOURCES_PER_FRAME && oldest !== undefined) cache.delete(oldest);
+    cache.set(key, source);
+  }
+  return source;
+}
+
+// Forget the processed copies of a base frame whose pixels changed in place,
+// e.g. by image adjustments
+export const invalidateRedactions = (base: FabricObject) => sources.delete(base);
+
+export class Redaction extends Path {
+  static type = "Redaction";
+
+  constructor(...args: ConstructorParameters<typeof Path>) {
+    super(...args);
+    // The processed pixels are drawn in document space, not object space
+    this.objectCaching = false;
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    const canvas = this.canvas;
+    const mode = this.redactMode ?? "blur";
+    const size = canvas ? Math.round((this.redactStrength ?? DEFAULT_REDACTION.strength) * annotationScale(canvas)) : 0;
+    const source = canvas && mode !== "fill" ? redactedSource(canvas, mode, size) : null;
+    if (!source) {
+      super._render(ctx);
+      return;
+    }
+
+    ctx.save();
+    this._renderPathCommands(ctx);
+    ctx.clip();
+    // Back from object to document coordinates, where the copy lines up
+    // with the frame
+    const [a, b, c, d, e, f] = util.invertTransform(this.calcTransformMatrix());
+    ctx.transform(a, b, c, d, e, f);
+    ctx.drawImage(source, 0, 0);
+    ctx.restore();
+  }
+}
+
+classRegistry.setClass(Redaction);
+
+export function createRedaction(d: string, settings: RedactionSettings, fillColor: string) {
+  const redaction = new Redaction(d, { fill: fillColor, stroke: null, strokeWidth: 0 });
+  redaction.redactMode = settings.mode;
+  redaction.redactStrength = settings.strength;
+  return redaction;
+}
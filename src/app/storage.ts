@@ -0,0 +1,53 @@
+// Small promise wrapper around the app's IndexedDB database
+
+const DB_NAME = "framegrabber";
+const DB_VERSION = 2;
+
+// markers: marker lists by video fingerprint (v1)
+// editorSession: the autosaved editor document (v2)
+export type StoreName = "markers" | "editorSession";
+const STORES: StoreName[] = ["markers", "editorSession"];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const store of STORES) {
+          if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open the database"));
+    }).catch((err) => {
+      // Allow a retry on the next call
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Database request failed"));
+  });
+}
+
+export const getRecord = <T>(store: StoreName, key: string) =>
+  runRequest<T | undefined>(store, "readonly", (s) => s.get(key));
+
+export const putRecord = (store: StoreName, key: string, value: unknown) =>
+  runRequest(store, "readwrite", (s) => s.put(value, key)).then(() => {});
+
+export const deleteRecord = (store: StoreName, key: string) =>
+  runRequest(store, "readwrite", (s) => s.delete(key));
@@ -0,0 +1,175 @@
+// Text settings for the editor's text tool and the label objects it places.
+// Sizes are given for a 720px tall document, like the other annotation styles.
+
+import { FabricObject, FabricText, IText, cache, classRegistry } from "fabric";
+import type { Canvas, ITextProps } from "fabric";
+import { hexColor } from "./annotationStyle";
+
+declare module "fabric" {
+  interface FabricObject {
+    // Space between a label's text and the edge of its background box
+    boxPadding?: number;
+  }
+  interface SerializedObjectProps {
+    boxPadding?: number;
+  }
+}
+
+FabricObject.customProperties = [...FabricObject.customProperties, "boxPadding"];
+
+export type TextAlign = "left" | "center" | "right";
+
+export interface TextStyle {
+  font: string;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  align: TextAlign;
+  lineHeight: number;
+  // Colours are kept while their box or outline is off
+  background: boolean;
+  backgroundColor: string;
+  boxPadding: number;
+  outline: boolean;
+  outlineColor: string;
+  outlineWidth: number;
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  font: "arial",
+  fontSize: 24,
+  bold: false,
+  italic: false,
+  underline: false,
+  align: "left",
+  lineHeight: 1.16,
+  background: false,
+  backgroundColor: "#000000",
+  boxPadding: 6,
+  outline: false,
+  outlineColor: "#000000",
+  outlineWidth: 2,
+};
+
+// System fonts, plus the ones the app ships itself through next/font (see
+// layout.tsx), whose generated family names are read from their CSS variables
+export const FONTS: { id: string; label: string; family: string; cssVariable?: string }[] = [
+  { id: "arial", label: "Arial", family: "Arial, Helvetica, sans-serif" },
+  { id: "verdana", label: "Verdana", family: "Verdana, Geneva, sans-serif" },
+  { id: "georgia", label: "Georgia", family: "Georgia, serif" },
+  { id: "times", label: "Times New Roman", family: "'Times New Roman', Times, serif" },
+  { id: "courier", label: "Courier New", family: "'Courier New', Courier, monospace" },
+  { id: "impact", label: "Impact", family: "Impact, 'Arial Black', sans-serif" },
+  { id: "comic", label: "Comic Sans MS", family: "'Comic Sans MS', 'Comic Sans', cursive" },
+  { id: "geist", label: "Geist (bundled)", family: "sans-serif", cssVariable: "--font-geist-sans" },
+  { id: "geist-mono", label: "Geist Mono (bundled)", family: "monospace", cssVariable: "--font-geist-mono" },
+];
+
+export function fontFamily(id: string) {
+  const font = FONTS.find((f) => f.id === id) ?? FONTS[0];
+  if (!font.cssVariable) return font.family;
+  const family = getComputedStyle(document.body).getPropertyValue(font.cssVariable).trim();
+  return family || font.family;
+}
+
+// Fabric properties for the parts of a text style that are given. Paired
+// settings (box on/off and its colour, outline on/off, colour and width)
+// only apply when all of their fields are present.
+export function textProps(style: Partial<TextStyle>, scale: number) {
+  const props: Partial<ITextProps> & { boxPadding?: number } = {};
+  if (style.font !== undefined) props.fontFamily = fontFamily(style.font);
+  if (style.fontSize !== undefined) props.fontSize = style.fontSize * scale;
+  if (style.bold !== undefined) props.fontWeight = style.bold ? "bold" : "normal";
+  if (style.italic !== undefined) props.fontStyle = style.italic ? "italic" : "normal";
+  if (style.underline !== undefined) props.underline = style.underline;
+  if (style.align !== undefined) props.textAlign = style.align;
+  if (style.lineHeight !== undefined) props.lineHeight = style.lineHeight;
+  if (style.background !== undefined && style.backgroundColor !== undefined) {
+    props.backgroundColor = style.background ? style.backgroundColor : "";
+  }
+  if (style.boxPadding !== undefined) props.boxPadding = style.boxPadding * scale;
+  if (style.outline !== undefined && style.outlineColor !== undefined && style.outlineWidth !== undefined) {
+    props.stroke = style.outline ? style.outlineColor : null;
+    props.strokeWidth = style.outline ? style.outlineWidth * scale : 0;
+    // The outline goes behind the glyphs instead of eating into them
+    props.paintFirst = "stroke";
+  }
+  return props;
+}
+
+// The text style a text object carries, for showing it in the text bar; the
+// inverse of textProps
+export function textStyleOf(text: FabricText, scale: number): Partial<TextStyle> {
+  const style: Partial<TextStyle> = {
+    fontSize: Math.round(text.fontSize / scale),
+    bold: text.fontWeight === "bold" || Number(text.fontWeight) >= 600,
+    italic: text.fontStyle === "italic",
+    underline: text.underline,
+    lineHeight: text.lineHeight,
+    boxPadding: Math.round((text.boxPadding ?? 0) / scale),
+    background: !!text.backgroundColor,
+    outline: !!text.stroke && text.strokeWidth > 0,
+  };
+  const font = FONTS.find((f) => fontFamily(f.id) === text.fontFamily);
+  if (font) style.font = font.id;
+  if (text.textAlign === "left" || text.textAlign === "center" || text.textAlign === "right") {
+    style.align = text.textAlign;
+  }
+  if (text.backgroundColor) style.backgroundColor = hexColor(text.backgroundColor);
+  if (style.outline && typeof text.stroke === "string") {
+    style.outlineColor = hexColor(text.stroke);
+    // The outline slider moves in half steps
+    style.outlineWidth = Math.round((text.strokeWidth / scale) * 2) / 2;
+  }
+  return style;
+}
+
+// Wait for a web font before measuring text in it; Fabric caches glyph widths
+// per family, so measurements taken with the fallback are dropped
+export async function loadFont(canvas: Canvas, family: string) {
+  await document.fonts.load(`16px ${family}`);
+  cache.clearFontCache(family);
+  canvas.getObjects().forEach((obj) => {
+    if (obj instanceof FabricText && obj.fontFamily === family) {
+      obj.initDimensions();
+      obj.setCoords();
+    }
+  });
+  canvas.requestRenderAll();
+}
+
+// Every font used in a document, e.g. one just restored
+export const loadFonts = (canvas: Canvas) =>
+  Promise.all(
+    [...new Set(canvas.getObjects().flatMap((obj) => (obj instanceof FabricText ? [obj.fontFamily] : [])))].map(
+      (family) => loadFont(canvas, family)
+    )
+  );
+
+// Editable text whose background box is padded out around the text
+export class LabelText extends IText {
+  static type = "LabelText";
+
+  static cacheProperties = [...IText.cacheProperties, "boxPadding"];
+
+  _renderBackground(ctx: CanvasRenderingContext2D) {
+    if (!this.backgroundColor) return;
+    const padding = this.boxPadding ?? 0;
+    const dim = this._getNonTransformedDimensions();
+    ctx.fillStyle = this.backgroundColor;
+    ctx.fillRect(-dim.x / 2 - padding, -dim.y / 2 - padding, dim.x + padding * 2, dim.y + padding * 2);
+    this._removeShadow(ctx);
+  }
+
+  // Room for the padding in the object cache, which would clip it otherwise
+  _getCacheCanvasDimensions() {
+    const dims = super._getCacheCanvasDimensions();
+    const padding = (this.boxPadding ?? 0) * 2;
+    dims.width += padding * dims.zoomX;
+    dims.height += padding * dims.zoomY;
+    return dims;
+  }
+}
+
+classRegistry.setClass(LabelText);
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatTimecode,
+  framesToTimecode,
+  parseTimeInput,
+  timecodeForFileName,
+  timecodeToFrames,
+} from "./timecode";
+
+describe("framesToTimecode", () => {
+  it("counts non-drop-frame rates at the nominal rate", () => {
+    expect(framesToTimecode(0, 25)).toBe("00:00:00:00");
+    expect(framesToTimecode(24, 25)).toBe("00:00:00:24");
+    expect(framesToTimecode(90000, 25)).toBe("01:00:00:00");
+    expect(framesToTimecode(86400 * 24, 23.976)).toBe("00:00:00:00");
+  });
+
+  it("skips two labels a minute at 29.97, except every tenth minute", () => {
+    expect(framesToTimecode(1799, 29.97)).toBe("00:00:59;29");
+    expect(framesToTimecode(1800, 29.97)).toBe("00:01:00;02");
+    expect(framesToTimecode(17981, 29.97)).toBe("00:09:59;29");
+    expect(framesToTimecode(17982, 29.97)).toBe("00:10:00;00");
+    expect(framesToTimecode(107892, 29.97)).toBe("01:00:00;00");
+  });
+
+  it("skips four labels a minute at 59.94", () => {
+    expect(framesToTimecode(3599, 59.94)).toBe("00:00:59;59");
+    expect(framesToTimecode(3600, 59.94)).toBe("00:01:00;04");
+    expect(framesToTimecode(35964, 59.94)).toBe("00:10:00;00");
+  });
+});
+
+describe("timecodeToFrames", () => {
+  it("inverts framesToTimecode", () => {
+    for (const fps of [23.976, 25, 29.97, 30, 59.94]) {
+      for (let frames = 0; frames < 40000; frames += 37) {
+        expect(timecodeToFrames(framesToTimecode(frames, fps), fps)).toBe(frames);
+      }
+    }
+  });
+
+  it("accepts either separator before the frame field", () => {
+    expect(timecodeToFrames("00:01:00:02", 29.97)).toBe(1800);
+    expect(timecodeToFrames("00:01:00;02", 29.97)).toBe(1800);
+  });
+
+  it("rejects anything that isn't a timecode", () => {
+    expect(timecodeToFrames("abc", 25)).toBeNull();
+    expect(timecodeToFrames("00:60:00:00", 25)).toBeNull();
+    expect(timecodeToFrames("00:00:60:00", 25)).toBeNull();
+    expect(timecodeToFrames("00:00:00:25", 25)).toBeNull();
+  });
+
+  it("rejects labels drop-frame counting skips", () => {
+    expect(timecodeToFrames("00:01:00;00", 29.97)).toBeNull();
+    expect(timecodeToFrames("00:01:00;01", 29.97)).toBeNull();
+    expect(timecodeToFrames("00:01:00;03", 59.94)).toBeNull();
+    expect(timecodeToFrames("00:01:00;04", 59.94)).toBe(3600);
+    // Every tenth minute keeps them
+    expect(timecodeToFrames("00:10:00;00", 29.97)).toBe(17982);
+    expect(timecodeToFrames("00:01:00:00", 30)).toBe(1800);
+  });
+});
+
+describe("formatTimecode", () => {
+  it("counts from the start timecode", () => {
+    expect(formatTimecode(1, 25)).toBe("00:00:01:00");
+    expect(formatTimecode(1, 25, "01:00:00:00")).toBe("01:00:01:00");
+  });
+});
+
+describe("parseTimeInput", () => {
+  it("reads timecodes in the displayed timebase", () => {
+    expect(parseTimeInput("00:00:01:00", 25)).toBe(25);
+    expect(parseTimeInput("01:00:01:00", 25, "01:00:00:00")).toBe(25);
+  });
+
+  it("reads seconds, milliseconds and clock times as media time", () => {
+    expect(parseTimeInput("12.5", 25)).toBe(312);
+    expect(parseTimeInput("12.5s", 25)).toBe(312);
+    expect(parseTimeInput("1500ms", 25)).toBe(37);
+    expect(parseTimeInput("1:02.5", 25)).toBe(1562);
+    expect(parseTimeInput("1:00:00", 25)).toBe(90000);
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseTimeInput("soon", 25)).toBeNull();
+    expect(parseTimeInput("", 25)).toBeNull();
+  });
+});
+
+describe("timecodeForFileName", () => {
+  it("replaces both separators", () => {
+    expect(timecodeForFileName("01:02:03;04")).toBe("01-02-03-04");
+  });
+});
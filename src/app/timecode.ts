@@ -0,0 +1,89 @@
+// SMPTE timecode conversion. 29.97 and 59.94 fps use drop-frame counting
+// (";" before the frame field), every other rate counts frames at the
+// rounded nominal rate.
+
+import { timeToFrame } from "./videoFrames";
+
+export const ZERO_TIMECODE = "00:00:00:00";
+
+export const isDropFrame = (fps: number) => Math.abs(fps - 29.97) < 0.01 || Math.abs(fps - 59.94) < 0.01;
+
+const nominalRate = (fps: number) => Math.max(1, Math.round(fps));
+
+// Frame labels skipped at the start of every minute except each tenth
+const droppedFrames = (fps: number) => (isDropFrame(fps) ? Math.round(fps / 15) : 0);
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export function framesToTimecode(frames: number, fps: number): string {
+  const rate = nominalRate(fps);
+  const drop = droppedFrames(fps);
+  let count = Math.max(0, Math.floor(frames));
+
+  if (drop > 0) {
+    const framesPerMinute = rate * 60 - drop;
+    const framesPer10Minutes = rate * 600 - drop * 9;
+    const tens = Math.floor(count / framesPer10Minutes);
+    const rest = count % framesPer10Minutes;
+    count += drop * 9 * tens + (rest > drop ? drop * Math.floor((rest - drop) / framesPerMinute) : 0);
+  }
+
+  const seconds = Math.floor(count / rate);
+  return (
+    [pad(Math.floor(seconds / 3600) % 24), pad(Math.floor(seconds / 60) % 60), pad(seconds % 60)].join(":") +
+    (drop > 0 ? ";" : ":") +
+    pad(count % rate)
+  );
+}
+
+// Frame count for an HH:MM:SS:FF (or HH:MM:SS;FF) string, null if it isn't one
+export function timecodeToFrames(timecode: string, fps: number): number | null {
+  const match = timecode.trim().match(/^(\d{1,2}):(\d{1,2}):(\d{1,2})[:;](\d{1,3})$/);
+  if (!match) return null;
+
+  const [hours, minutes, seconds, frames] = match.slice(1).map(Number);
+  const rate = nominalRate(fps);
+  if (minutes > 59 || seconds > 59 || frames >= rate) return null;
+
+  const totalMinutes = hours * 60 + minutes;
+  const drop = droppedFrames(fps);
+  // Drop-frame counting skips these labels at the start of most minutes
+  if (seconds === 0 && frames < drop && minutes % 10 !== 0) return null;
+  return (
+    (hours * 3600 + minutes * 60 + seconds) * rate +
+    frames -
+    drop * (totalMinutes - Math.floor(totalMinutes / 10))
+  );
+}
+
+// Timecode shown for a media time, counted from the start timecode
+export function formatTimecode(time: number, fps: number, startTimecode = ZERO_TIMECODE): string {
+  const start = timecodeToFrames(startTimecode, fps) ?? 0;
+  return framesToTimecode(start + timeToFrame(time, fps), fps);
+}
+
+// Parse what the user typed into a frame index. Full timecodes are read in
+// the displayed timebase (start offset included); seconds ("12.5", "12.5s"),
+// milliseconds ("1500ms") and clock times ("1:02.5") are media time.
+export function parseTimeInput(input: string, fps: number, startTimecode = ZERO_TIMECODE): number | null {
+  const text = input.trim().toLowerCase();
+
+  const frames = timecodeToFrames(text, fps);
+  if (frames !== null) return frames - (timecodeToFrames(startTimecode, fps) ?? 0);
+
+  const ms = text.match(/^(\d+(?:\.\d+)?)\s*ms$/);
+  if (ms) return timeToFrame(Number(ms[1]) / 1000, fps);
+
+  const seconds = text.match(/^(\d+(?:\.\d+)?)\s*s?$/);
+  if (seconds) return timeToFrame(Number(seconds[1]), fps);
+
+  const clock = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (clock) {
+    const time = Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+    return timeToFrame(time, fps);
+  }
+  return null;
+}
+
+// Colons aren't allowed in file names on every platform
+export const timecodeForFileName = (timecode: string) => timecode.replace(/[:;]/g, "-");
@@ -0,0 +1,202 @@
+// Helpers for frame-accurate seeking and capture on <video> elements
+
+export const DEFAULT_FPS = 30;
+
+// Common frame rates we snap measured values to
+const KNOWN_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60, 120];
+
+const supportsFrameCallback = () =>
+  typeof HTMLVideoElement !== "undefined" &&
+  "requestVideoFrameCallback" in HTMLVideoElement.prototype;
+
+const VIDEO_EXTENSIONS = [
+  "3gp", "avi", "flv", "hevc", "m2ts", "m4v", "mkv", "mov", "mp4",
+  "mpeg", "mpg", "mts", "mxf", "ogv", "ts", "webm", "wmv",
+];
+
+// Some containers (e.g. MKV) often come without a MIME type, so also check the extension
+export const isVideoFile = (file: File) =>
+  file.type.startsWith("video/") ||
+  VIDEO_EXTENSIONS.includes(file.name.split(".").pop()?.toLowerCase() ?? "");
+
+// Whether a <video> element is likely to play the file. Codecs inside a
+// supported container can still fail, which is caught when loading.
+export const canPlayNatively = (file: File) =>
+  !!file.type && document.createElement("video").canPlayType(file.type) !== "";
+
+// Index of the frame that is on screen at time t
+export const timeToFrame = (t: number, fps: number) =>
+  Math.max(0, Math.floor(t * fps + 1e-4));
+
+// Seek target for a frame: aim at the middle of the frame so rounding in the
+// decoder can't land us on a neighbour
+export const frameToTime = (frame: number, fps: number) => (frame + 0.5) / fps;
+
+export const totalFrames = (duration: number, fps: number) =>
+  Math.max(1, Math.floor(duration * fps + 1e-4));
+
+// Create a hidden video element for background work (frame rate detection,
+// thumbnails, analysis) so the visible player is never disturbed
+export function loadVideo(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    // Keep it in the document so frame callbacks keep firing, but out of sight
+    Object.assign(video.style, {
+      position: "fixed",
+      left: "0",
+      top: "0",
+      width: "1px",
+      height: "1px",
+      opacity: "0",
+      pointerEvents: "none",
+    });
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      releaseVideo(video);
+      reject(new Error("Failed to load video"));
+    };
+    document.body.appendChild(video);
+    video.src = url;
+  });
+}
+
+export function releaseVideo(video: HTMLVideoElement) {
+  video.pause();
+  video.removeAttribute("src");
+  video.load();
+  video.remove();
+}
+
+// Seek and resolve with the media time of the frame that was actually
+// presented. Falls back to the seeked event when requestVideoFrameCallback is
+// unavailable or no new frame gets presented (e.g. seeking to the same frame).
+export function seekVideo(video: HTMLVideoElement, time: number): Promise<number> {
+  const target = Math.min(Math.max(0, time), video.duration || time);
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let callbackId: number | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = (mediaTime: number) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      if (callbackId !== null) video.cancelVideoFrameCallback(callbackId);
+      video.removeEventListener("seeked", handleSeeked);
+      resolve(mediaTime);
+    };
+
+    const handleSeeked = () => {
+      if (callbackId === null) {
+        finish(video.currentTime);
+        return;
+      }
+      // Give the compositor a moment to report the presented frame
+      timer = setTimeout(() => finish(video.currentTime), 150);
+    };
+
+    if (supportsFrameCallback()) {
+      callbackId = video.requestVideoFrameCallback((_now, metadata) => {
+        callbackId = null;
+        finish(metadata.mediaTime);
+      });
+    }
+    video.addEventListener("seeked", handleSeeked);
+    video.currentTime = target;
+  });
+}
+
+// Measure the frame rate by playing a hidden copy of the video for a few
+// frames and looking at the spacing of presented media times
+export async function detectFrameRate(url: string): Promise<number> {
+  if (!supportsFrameCallback()) return DEFAULT_FPS;
+
+  let video: HTMLVideoElement;
+  try {
+    video = await loadVideo(url);
+  } catch {
+    return DEFAULT_FPS;
+  }
+
+  try {
+    const mediaTimes = await new Promise<number[]>((resolve) => {
+      const collected: number[] = [];
+      const timeout = setTimeout(() => resolve(collected), 3000);
+
+      const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        collected.push(metadata.mediaTime);
+        if (collected.length >= 12) {
+          clearTimeout(timeout);
+          resolve(collected);
+          return;
+        }
+        video.requestVideoFrameCallback(onFrame);
+      };
+
+      video.requestVideoFrameCallback(onFrame);
+      video.play().catch(() => {
+        clearTimeout(timeout);
+        resolve(collected);
+      });
+    });
+
+    // The smallest gap between consecutive frames is one frame duration;
+    // larger gaps mean frames were skipped during playback
+    let minDelta = Infinity;
+    for (let i = 1; i < mediaTimes.length; i++) {
+      const delta = mediaTimes[i] - mediaTimes[i - 1];
+      if (delta > 0.001 && delta < minDelta) minDelta = delta;
+    }
+    if (!Number.isFinite(minDelta)) return DEFAULT_FPS;
+
+    const measured = 1 / minDelta;
+    const known = KNOWN_FRAME_RATES.find((rate) => Math.abs(rate - measured) / rate < 0.01);
+    return known ?? Math.round(measured * 100) / 100;
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+// Draw the frame currently shown by the video onto a new canvas
+export function drawVideoFrame(video: HTMLVideoElement): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.drawImage(video, 0, 0);
+  return canvas;
+}
+
+// Small JPEG data URL of a captured frame, or of what a video currently shows
+export function videoThumbnail(source: HTMLVideoElement | HTMLCanvasElement, width = 160): string {
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = Math.max(1, Math.round((width * sourceHeight) / (sourceWidth || 1)));
+  canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.7);
+}
+
+// Seek to a time and capture the frame that gets presented there
+export async function captureFrame(video: HTMLVideoElement, time: number) {
+  const mediaTime = await seekVideo(video, time);
+  return { canvas: drawVideoFrame(video), mediaTime };
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error("Failed to create blob from canvas"));
+    }, type, quality);
+  });
+}
@@ -0,0 +1,35 @@
+// Minimal typings for gifenc, which ships without its own
+declare module "gifenc" {
+  export type Palette = number[][];
+  export type PixelFormat = "rgb565" | "rgb444" | "rgba4444";
+
+  export interface QuantizeOptions {
+    format?: PixelFormat;
+    oneBitAlpha?: boolean | number;
+    clearAlpha?: boolean;
+    clearAlphaThreshold?: number;
+    clearAlphaColor?: number;
+  }
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    first?: boolean;
+    transparent?: boolean;
+    transparentIndex?: number;
+    delay?: number;
+    repeat?: number;
+    dispose?: number;
+  }
+
+  export interface GIFStream {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array<ArrayBuffer>;
+    bytesView(): Uint8Array<ArrayBuffer>;
+    reset(): void;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): GIFStream;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: QuantizeOptions): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: PixelFormat): Uint8Array;
+}